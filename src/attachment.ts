@@ -0,0 +1,19 @@
+/**
+ * Content-Disposition header for file downloads
+ */
+
+import { Response } from "express";
+
+/**
+ * Offer a response as a download named fileName (RFC 5987): filename is an
+ * ASCII fallback with other characters replaced by underscores, filename*
+ * the UTF-8 encoded name for modern browsers
+ */
+export function setAttachment(res: Response, fileName: string): void {
+  const asciiFallback = fileName.replace(/[^\x20-\x7E]|["\\]/g, "_");
+  const encodedName = encodeURIComponent(fileName).replace(/'/g, "%27");
+  res.setHeader(
+    "Content-Disposition",
+    `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encodedName}`
+  );
+}
@@ -0,0 +1,190 @@
+/**
+ * API key authentication and tenant ownership of jobs and glossaries.
+ * Keys come from API_KEYS ("tenant:key" pairs) and ADMIN_API_KEYS; with
+ * neither set, authentication is off and every job is visible to everyone.
+ * Browsers sign in once (POST /api/session) and send a session cookie, since
+ * download links and event streams cannot carry headers.
+ */
+
+import { Request, Response, NextFunction } from "express";
+import { randomBytes } from "crypto";
+import type { JobState } from "./jobs";
+import type { Glossary } from "./services/glossary";
+import { apiKeyId } from "./services/budget";
+
+export interface AuthContext {
+  tenant: string;
+  admin: boolean;
+  keyId: string; // hash of the key, never the key itself
+}
+
+declare global {
+  namespace Express {
+    interface Request {
+      auth?: AuthContext; // undefined when authentication is off
+    }
+  }
+}
+
+const SESSION_COOKIE = "wt_session";
+const ADMIN_TENANT = "admin";
+
+// Sessions live in memory: a restart signs every browser out
+const sessions = new Map<string, { auth: AuthContext; expiresAt: number }>();
+
+let cachedConfig: { source: string; keys: Map<string, AuthContext> } | null = null;
+
+/**
+ * Configured keys by key ID, re-read when the environment changes
+ */
+function configuredKeys(): Map<string, AuthContext> {
+  const source = `${process.env.API_KEYS || ""}|${process.env.ADMIN_API_KEYS || ""}`;
+  if (cachedConfig?.source === source) return cachedConfig.keys;
+
+  const keys = new Map<string, AuthContext>();
+  for (const entry of (process.env.API_KEYS || "").split(",")) {
+    const separator = entry.indexOf(":");
+    const tenant = entry.slice(0, separator).trim();
+    const key = entry.slice(separator + 1).trim();
+    if (separator > 0 && tenant && key) {
+      keys.set(apiKeyId(key), { tenant, admin: false, keyId: apiKeyId(key) });
+    }
+  }
+  for (const key of (process.env.ADMIN_API_KEYS || "").split(",").map((k) => k.trim())) {
+    if (key) {
+      keys.set(apiKeyId(key), { tenant: ADMIN_TENANT, admin: true, keyId: apiKeyId(key) });
+    }
+  }
+
+  cachedConfig = { source, keys };
+  return keys;
+}
+
+/**
+ * Whether any API key is configured
+ */
+export function authEnabled(): boolean {
+  return configuredKeys().size > 0;
+}
+
+/**
+ * Look up an API key
+ */
+export function authenticateKey(apiKey: string): AuthContext | undefined {
+  return configuredKeys().get(apiKeyId(apiKey));
+}
+
+function sessionTtlMs(): number {
+  return parseFloat(process.env.SESSION_TTL_HOURS || "12") * 60 * 60 * 1000;
+}
+
+function readCookie(req: Request, name: string): string | undefined {
+  for (const part of (req.headers.cookie || "").split(";")) {
+    const [key, ...value] = part.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return undefined;
+}
+
+/**
+ * Caller of a request: X-API-Key or Bearer header first, then the session cookie
+ */
+function authenticateRequest(req: Request): AuthContext | undefined {
+  const bearer = req.header("Authorization")?.match(/^Bearer\s+(.+)$/i)?.[1];
+  const apiKey = req.header("X-API-Key") || bearer;
+  if (apiKey) return authenticateKey(apiKey);
+
+  const token = readCookie(req, SESSION_COOKIE);
+  const session = token ? sessions.get(token) : undefined;
+  if (!session) return undefined;
+  if (session.expiresAt < Date.now()) {
+    sessions.delete(token!);
+    return undefined;
+  }
+  return session.auth;
+}
+
+/**
+ * Middleware: answer 401 unless the request carries a valid key or session
+ */
+export function requireAuth(req: Request, res: Response, next: NextFunction): void {
+  if (!authEnabled()) {
+    next();
+    return;
+  }
+
+  const auth = authenticateRequest(req);
+  if (!auth) {
+    res.status(401).json({ error: "API key required" });
+    return;
+  }
+  req.auth = auth;
+  next();
+}
+
+/**
+ * Middleware: answer 403 unless the caller is an admin (after requireAuth)
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  if (authEnabled() && !req.auth?.admin) {
+    res.status(403).json({ error: "Admin API key required" });
+    return;
+  }
+  next();
+}
+
+/**
+ * Whether the caller of a request may see a job: its own tenant's jobs, or
+ * every job for admins and when authentication is off
+ */
+export function canAccessJob(req: Request, job: JobState): boolean {
+  if (!req.auth || req.auth.admin) return true;
+  return job.tenant === req.auth.tenant;
+}
+
+/**
+ * Whether the caller of a request may see a glossary: its own tenant's and the
+ * shared ones (created by admins or without authentication), or every
+ * glossary for admins and when authentication is off
+ */
+export function canAccessGlossary(req: Request, glossary: Glossary): boolean {
+  if (!req.auth || req.auth.admin) return true;
+  return !glossary.tenant || glossary.tenant === req.auth.tenant;
+}
+
+/**
+ * Whether the caller of a request may change a glossary: shared glossaries
+ * are read-only for tenants
+ */
+export function canEditGlossary(req: Request, glossary: Glossary): boolean {
+  if (!req.auth || req.auth.admin) return true;
+  return glossary.tenant === req.auth.tenant;
+}
+
+/**
+ * Start a browser session for an API key; returns the cookie to set
+ */
+export function createSession(auth: AuthContext): string {
+  const token = randomBytes(32).toString("hex");
+  const ttl = sessionTtlMs();
+  sessions.set(token, { auth, expiresAt: Date.now() + ttl });
+  return `${SESSION_COOKIE}=${token}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${Math.floor(ttl / 1000)}`;
+}
+
+/**
+ * End the session of a request; returns the cookie that clears it
+ */
+export function endSession(req: Request): string {
+  const token = readCookie(req, SESSION_COOKIE);
+  if (token) sessions.delete(token);
+  return `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Strict; Max-Age=0`;
+}
+
+/**
+ * Who the request is signed in as, for the session route
+ */
+export function describeSession(req: Request): { authRequired: boolean; tenant?: string; admin?: boolean } {
+  if (!authEnabled()) return { authRequired: false };
+  const auth = authenticateRequest(req);
+  return { authRequired: true, tenant: auth?.tenant, admin: auth?.admin };
+}
@@ -0,0 +1,71 @@
+/**
+ * Server-side job queue: jobs start in upload order, at most
+ * `maxConcurrent` at a time, so a batch upload does not send every
+ * document to the translation and conversion services at once
+ */
+
+interface QueuedJob {
+  jobId: string;
+  run: () => Promise<void>;
+}
+
+export class JobQueue {
+  private waiting: QueuedJob[] = [];
+  private running = new Set<string>();
+
+  constructor(
+    private readonly maxConcurrent: number,
+    // Called with the waiting job IDs whenever their positions change
+    private readonly onPositionsChanged: (waitingIds: string[]) => void = () => {}
+  ) {
+    // A queue without slots would never start a job
+    if (!Number.isInteger(maxConcurrent) || maxConcurrent < 1) {
+      throw new RangeError(`maxConcurrent must be a positive integer, got ${maxConcurrent}`);
+    }
+  }
+
+  /**
+   * Add a job; run is called once a slot is free
+   */
+  enqueue(jobId: string, run: () => Promise<void>): void {
+    this.waiting.push({ jobId, run });
+    this.drain();
+  }
+
+  /**
+   * Drop a job that has not started yet (e.g. cancelled while queued)
+   */
+  remove(jobId: string): boolean {
+    const before = this.waiting.length;
+    this.waiting = this.waiting.filter((item) => item.jobId !== jobId);
+    if (this.waiting.length === before) return false;
+    this.onPositionsChanged(this.waiting.map((item) => item.jobId));
+    return true;
+  }
+
+  /**
+   * 1-based position among the waiting jobs, undefined when not waiting
+   */
+  position(jobId: string): number | undefined {
+    const index = this.waiting.findIndex((item) => item.jobId === jobId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  private drain(): void {
+    let started = false;
+    while (this.running.size < this.maxConcurrent && this.waiting.length > 0) {
+      started = true;
+      const { jobId, run } = this.waiting.shift()!;
+      this.running.add(jobId);
+      run()
+        .catch((error) => console.error(`Queued job ${jobId} failed:`, error))
+        .finally(() => {
+          this.running.delete(jobId);
+          this.drain();
+        });
+    }
+    if (started) {
+      this.onPositionsChanged(this.waiting.map((item) => item.jobId));
+    }
+  }
+}
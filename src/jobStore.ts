@@ -0,0 +1,102 @@
+/**
+ * Job repositories - persistence backends for job state
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import type { JobState } from "./jobs";
+
+// Everything in JobState except runtime-only handles
+export type PersistedJob = Omit<JobState, "abortController">;
+
+export interface JobRepository {
+  /** Load every stored job (called once on boot) */
+  loadAll(): PersistedJob[];
+  /** Insert or replace a job */
+  save(job: PersistedJob): void;
+  /** Remove a job */
+  delete(id: string): void;
+}
+
+/**
+ * Strip runtime-only fields before persisting
+ */
+export function toPersisted(job: JobState): PersistedJob {
+  const { abortController, ...rest } = job;
+  return rest;
+}
+
+/**
+ * Default repository: nothing survives a restart
+ */
+export class MemoryJobRepository implements JobRepository {
+  loadAll(): PersistedJob[] {
+    return [];
+  }
+
+  save(job: PersistedJob): void {
+    // Jobs already live in the in-memory map in jobs.ts
+  }
+
+  delete(id: string): void {
+    // Nothing to remove
+  }
+}
+
+/**
+ * File-backed repository: one JSON file per job
+ */
+export class FileJobRepository implements JobRepository {
+  constructor(private readonly dir: string) {
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+  }
+
+  private filePath(id: string): string {
+    return path.join(this.dir, `${id}.json`);
+  }
+
+  loadAll(): PersistedJob[] {
+    const loaded: PersistedJob[] = [];
+    for (const file of fs.readdirSync(this.dir)) {
+      if (!file.endsWith(".json")) continue;
+      try {
+        loaded.push(JSON.parse(fs.readFileSync(path.join(this.dir, file), "utf8")));
+      } catch (e) {
+        console.error(`Failed to load job ${file}:`, e);
+      }
+    }
+    return loaded;
+  }
+
+  save(job: PersistedJob): void {
+    // Write to a temp file first so a crash mid-write never leaves corrupt JSON
+    const target = this.filePath(job.id);
+    const temp = `${target}.tmp`;
+    fs.writeFileSync(temp, JSON.stringify(job), "utf8");
+    fs.renameSync(temp, target);
+  }
+
+  delete(id: string): void {
+    try {
+      fs.unlinkSync(this.filePath(id));
+    } catch (e) {
+      // Ignore missing file
+    }
+  }
+}
+
+/**
+ * Create the repository selected by JOB_STORE (memory | file)
+ */
+export function createJobRepository(dataDir: string): JobRepository {
+  const kind = (process.env.JOB_STORE || "memory").toLowerCase();
+  if (kind === "file") {
+    return new FileJobRepository(path.join(dataDir, "jobs"));
+  }
+  if (kind !== "memory") {
+    throw new Error(`Unknown JOB_STORE: ${kind} (expected memory or file)`);
+  }
+  return new MemoryJobRepository();
+}
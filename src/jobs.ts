@@ -2,17 +2,36 @@
  * Job tracking and state management
  */
 
+import * as fs from "fs";
+import { EventEmitter } from "events";
+import { GlossaryViolation } from "./services/compliance";
+import { QaFlag } from "./services/validation";
+import { DocxPartType } from "./services/docx";
+import { OutputVariant, TranslationStyle } from "./services/bilingual";
+import { LayoutIssue, LayoutMode } from "./services/layout";
+import { EngineName, getEngine, priceUsage } from "./services/engines";
+import { ConverterName, OutputFormat } from "./services/converters";
+import type { TranslationEstimate } from "./services/translator";
+import type { BudgetLimits, BudgetScope } from "./services/budget";
+import { JobRepository, MemoryJobRepository, toPersisted } from "./jobStore";
+
 export type JobStatus =
   | "uploading"
+  | "queued" // waiting for a free slot in the job queue
+  | "resuming"
   | "converting"
   | "parsing-docx"
+  | "estimated" // paused after parsing until the cost estimate is confirmed
   | "translating"
   | "qa-check"
   | "retranslating"
+  | "review" // paused after QA until a reviewer finalizes the job
+  | "budget-exceeded" // paused over budget until the overrun is approved
   | "packing"
   | "done"
   | "error"
-  | "cancelled";
+  | "cancelled"
+  | "interrupted"; // server stopped while the job was running
 
 export interface JobUsage {
   prompt: number;
@@ -20,9 +39,41 @@ export interface JobUsage {
   reasoning: number;
 }
 
+export interface RetryStats {
+  retries: number; // failed batch requests that were retried
+  rateLimited: number; // of those, rejected with HTTP 429
+  splits: number; // batches split in half after retries ran out
+}
+
+export interface MemoryStats {
+  exact: number; // segments filled from the translation memory
+  fuzzy: number; // segments translated with a similar memory unit as reference
+  miss: number;
+}
+
+export interface JobOptions {
+  sourceLang: string; // language code, e.g. "en"
+  targetLang: string; // language code, e.g. "zh-TW"
+  glossaryIds: string[]; // glossaries applied to this job, later ones override earlier
+  useMemory: boolean; // reuse and populate the translation memory
+  partTypes: DocxPartType[]; // optional DOCX parts to translate besides the body
+  inlineTags: boolean; // preserve run-level formatting via inline tags
+  outputVariants: OutputVariant[]; // bilingual documents written next to the translation
+  translationStyle: TranslationStyle; // look of translated paragraphs in interleaved output
+  layoutMode: LayoutMode; // what to do when translations outgrow cells, text boxes and frames
+  review: boolean; // pause after QA for human post-editing
+  engine: EngineName; // translation backend
+  converter: ConverterName; // PDF to DOCX backend
+  outputFormat: OutputFormat; // "pdf" also renders the translated DOCX to PDF
+  confirmEstimate: boolean; // pause with a cost estimate before translating
+  budget: BudgetLimits; // cost/token ceilings of this job
+}
+
 export interface JobState {
   id: string;
   fileName: string;
+  options: JobOptions;
+  batchId: string; // jobs uploaded together
   status: JobStatus;
   progress: number; // 0-100
   stepMessage: string;
@@ -35,20 +86,129 @@ export interface JobState {
   totalSegments: number;
   doneSegments: number;
   usage: JobUsage;
+  memoryStats: MemoryStats;
+  retryStats: RetryStats;
   costUSD?: number;
+  estimate?: TranslationEstimate; // expected usage, for jobs that confirm an estimate first
+  estimateConfirmed?: boolean;
+  tenant?: string; // owner, when API keys are configured
+  apiKeyId?: string; // hash of the API key the job was uploaded with (daily budgets)
+  budgetApproved?: boolean; // an over-budget job was approved to finish
+  budgetExceeded?: BudgetScope; // the budget that paused the job (older jobs: unset)
+  converterUsed?: ConverterName; // after fallback, for PDF uploads
   outputPath?: string;
+  variantPaths?: Partial<Record<OutputVariant, string>>;
+  pdfOutputPath?: string; // PDF rendering of outputPath
+  uploadedFilePath?: string;
+  workingDocxPath?: string;
+  resumable: boolean; // interrupted with its input still on disk
+  glossaryViolations: GlossaryViolation[]; // remaining after the repair pass
+  qaFlags: QaFlag[]; // suspicious or missing model output, per segment
+  layoutIssues: LayoutIssue[]; // containers the translation overflows
+  reviewedSegmentIds: number[]; // segments edited during review
 }
 
-// In-memory job store
+// Change notifications for streaming clients (GET /api/jobs/:id/events)
+export type JobEvent =
+  | { type: "status" } // the job's state was saved
+  | { type: "batch"; segmentIds: number[] }; // a translation batch was applied
+
+const ACTIVE_STATUSES: JobStatus[] = [
+  "uploading",
+  "queued",
+  "resuming",
+  "converting",
+  "parsing-docx",
+  "translating",
+  "qa-check",
+  "retranslating",
+  "packing",
+];
+
+// In-memory job store, written through to the repository
 const jobs = new Map<string, JobState>();
+let repository: JobRepository = new MemoryJobRepository();
+
+// Listeners are keyed by job ID
+const jobEvents = new EventEmitter();
+jobEvents.setMaxListeners(0);
+
+/**
+ * Load persisted jobs from a repository on boot.
+ * Jobs that were still running are marked interrupted (resumable if their
+ * input file survived); finished jobs stay downloadable.
+ */
+export function initJobStore(repo: JobRepository): void {
+  repository = repo;
+  jobs.clear();
+
+  let interrupted = 0;
+  for (const stored of repo.loadAll()) {
+    const job: JobState = {
+      ...stored,
+      batchId: stored.batchId ?? stored.id, // stored before batches existed
+      abortController: new AbortController(),
+    };
+
+    if (ACTIVE_STATUSES.includes(job.status)) {
+      const input = job.workingDocxPath ?? job.uploadedFilePath;
+      job.status = "interrupted";
+      job.stepMessage = "伺服器重新啟動，工作已中斷";
+      job.finishedAt = Date.now();
+      job.resumable = !!input && fs.existsSync(input);
+      repo.save(toPersisted(job));
+      interrupted++;
+    }
+
+    jobs.set(job.id, job);
+  }
+
+  console.log(`Loaded ${jobs.size} jobs (${interrupted} interrupted)`);
+}
+
+/**
+ * Write a job's current state to the repository and notify listeners
+ */
+export function saveJob(job: JobState): void {
+  try {
+    repository.save(toPersisted(job));
+  } catch (e) {
+    console.error(`Failed to persist job ${job.id}:`, e);
+  }
+  publishJobEvent(job, { type: "status" });
+}
+
+/**
+ * Notify the listeners of a job
+ */
+export function publishJobEvent(job: JobState, event: JobEvent): void {
+  jobEvents.emit(job.id, event);
+}
+
+/**
+ * Listen to a job's events; returns the function that stops listening
+ */
+export function subscribeJob(id: string, listener: (event: JobEvent) => void): () => void {
+  jobEvents.on(id, listener);
+  return () => {
+    jobEvents.off(id, listener);
+  };
+}
 
 /**
  * Create a new job with initial state
  */
-export function createJob(id: string, fileName: string): JobState {
+export function createJob(
+  id: string,
+  fileName: string,
+  options: JobOptions,
+  batchId: string = id
+): JobState {
   const job: JobState = {
     id,
     fileName,
+    options,
+    batchId,
     status: "uploading",
     progress: 0,
     stepMessage: "準備中...",
@@ -62,8 +222,24 @@ export function createJob(id: string, fileName: string): JobState {
       completion: 0,
       reasoning: 0,
     },
+    memoryStats: {
+      exact: 0,
+      fuzzy: 0,
+      miss: 0,
+    },
+    retryStats: {
+      retries: 0,
+      rateLimited: 0,
+      splits: 0,
+    },
+    resumable: false,
+    glossaryViolations: [],
+    qaFlags: [],
+    layoutIssues: [],
+    reviewedSegmentIds: [],
   };
   jobs.set(id, job);
+  saveJob(job);
   return job;
 }
 
@@ -86,14 +262,32 @@ export function cancelJob(id: string): boolean {
   job.stepMessage = "已取消";
   job.finishedAt = Date.now();
   job.abortController.abort();
+  saveJob(job);
   return true;
 }
 
+/**
+ * Reset a failed or interrupted job so it can run again.
+ * Usage and the input file paths are kept.
+ */
+export function restartJob(job: JobState): void {
+  job.status = "resuming";
+  job.stepMessage = "準備繼續翻譯...";
+  job.progress = 0;
+  job.cancelled = false;
+  job.abortController = new AbortController();
+  job.errorMessage = undefined;
+  job.finishedAt = undefined;
+  job.resumable = false;
+  saveJob(job);
+}
+
 /**
  * Update job with partial data
  */
 export function updateJob(job: JobState, patch: Partial<JobState>): void {
   Object.assign(job, patch);
+  saveJob(job);
 }
 
 /**
@@ -104,14 +298,9 @@ export function finishJob(job: JobState, status: JobStatus = "done"): void {
   job.finishedAt = Date.now();
   job.progress = 100;
 
-  // Calculate cost based on token usage (GPT-5-mini Data Zone pricing)
-  // Input: $0.28 per 1M tokens, Output: $2.20 per 1M tokens
-  const inputPricePerM = parseFloat(process.env.AZURE_OPENAI_INPUT_PRICE_PER_1M || "0.28");
-  const outputPricePerM = parseFloat(process.env.AZURE_OPENAI_OUTPUT_PRICE_PER_1M || "2.20");
-
-  const inputCost = (job.usage.prompt / 1_000_000) * inputPricePerM;
-  const outputCost = ((job.usage.completion + job.usage.reasoning) / 1_000_000) * outputPricePerM;
-  job.costUSD = inputCost + outputCost;
+  // Calculate cost based on token usage and the engine's price model
+  job.costUSD = priceUsage(job.usage, getEngine(job.options.engine).price);
+  saveJob(job);
 }
 
 /**
@@ -127,11 +316,21 @@ export function getElapsedSeconds(job: JobState): number {
  * Delete a job from storage (for cleanup)
  */
 export function deleteJob(id: string): boolean {
+  repository.delete(id);
   return jobs.delete(id);
 }
 
 /**
- * Get all jobs (for debugging)
+ * Jobs uploaded together, in upload order
+ */
+export function getBatchJobs(batchId: string): JobState[] {
+  return Array.from(jobs.values())
+    .filter((job) => job.batchId === batchId)
+    .sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/**
+ * Get all jobs (admin listing, daily budgets)
  */
 export function getAllJobs(): JobState[] {
   return Array.from(jobs.values());
@@ -0,0 +1,236 @@
+/**
+ * Glossary management routes (CRUD, CSV/TBX import and export).
+ * Tenants see their own glossaries and the shared ones, and change only
+ * their own; admins see and change every glossary.
+ */
+
+import { Router, Request, Response } from "express";
+import multer from "multer";
+import path from "path";
+
+import {
+  listGlossaries,
+  getGlossary,
+  createGlossary,
+  updateGlossary,
+  deleteGlossary,
+  addEntry,
+  updateEntry,
+  deleteEntry,
+  importEntries,
+  parseGlossaryFile,
+  toGlossaryCsv,
+  toGlossaryTbx,
+  Glossary,
+  GlossaryFormat,
+  DEFAULT_GLOSSARY_ID,
+} from "../services/glossary";
+import { canAccessGlossary, canEditGlossary } from "../auth";
+import { setAttachment } from "../attachment";
+
+const router = Router();
+
+// Glossary files are small; keep them in memory
+const upload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 5 * 1024 * 1024, // 5MB limit
+  },
+});
+
+/**
+ * Resolve import/export format from query or file extension
+ */
+function resolveFormat(value: unknown, fileName?: string): GlossaryFormat | null {
+  const format = String(value || (fileName ? path.extname(fileName).slice(1) : "csv")).toLowerCase();
+  if (format === "csv" || format === "tbx") return format;
+  return null;
+}
+
+/**
+ * The glossary of the request's :id, or undefined after answering 404 when
+ * the caller may not see it, or 403 when edit is set and they may not change it
+ */
+function findGlossary(req: Request, res: Response, edit = false): Glossary | undefined {
+  const glossary = getGlossary(req.params.id);
+  if (!glossary || !canAccessGlossary(req, glossary)) {
+    res.status(404).json({ error: "Glossary not found" });
+    return undefined;
+  }
+  if (edit && !canEditGlossary(req, glossary)) {
+    res.status(403).json({ error: "Shared glossaries can only be changed by an admin" });
+    return undefined;
+  }
+  return glossary;
+}
+
+/**
+ * GET /api/glossaries
+ * List glossaries (without entries), optionally filtered by ?project=
+ */
+router.get("/", (req: Request, res: Response) => {
+  const project = req.query.project ? String(req.query.project) : undefined;
+  res.json(
+    listGlossaries(project)
+      .filter((g) => canAccessGlossary(req, g))
+      .map((g) => ({
+        id: g.id,
+        name: g.name,
+        project: g.project,
+        tenant: g.tenant,
+        sourceLang: g.sourceLang,
+        targetLang: g.targetLang,
+        entryCount: g.entries.length,
+        updatedAt: g.updatedAt,
+      }))
+  );
+});
+
+/**
+ * POST /api/glossaries
+ * Create a glossary, owned by the caller's tenant (shared when an admin creates it)
+ */
+router.post("/", (req: Request, res: Response) => {
+  const tenant = req.auth && !req.auth.admin ? req.auth.tenant : undefined;
+  try {
+    res.status(201).json(createGlossary(req.body ?? {}, tenant));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * GET /api/glossaries/:id
+ * Get a glossary with all entries
+ */
+router.get("/:id", (req: Request, res: Response) => {
+  const glossary = findGlossary(req, res);
+  if (!glossary) return;
+  res.json(glossary);
+});
+
+/**
+ * PATCH /api/glossaries/:id
+ * Update glossary name, project or languages
+ */
+router.patch("/:id", (req: Request, res: Response) => {
+  if (!findGlossary(req, res, true)) return;
+  try {
+    res.json(updateGlossary(req.params.id, req.body ?? {}));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * DELETE /api/glossaries/:id
+ * Delete a glossary (the default glossary cannot be deleted)
+ */
+router.delete("/:id", (req: Request, res: Response) => {
+  if (!findGlossary(req, res, true)) return;
+  if (req.params.id === DEFAULT_GLOSSARY_ID) {
+    res.status(400).json({ error: "The default glossary cannot be deleted" });
+    return;
+  }
+  deleteGlossary(req.params.id);
+  res.json({ ok: true });
+});
+
+/**
+ * POST /api/glossaries/:id/entries
+ * Add an entry
+ */
+router.post("/:id/entries", (req: Request, res: Response) => {
+  if (!findGlossary(req, res, true)) return;
+  try {
+    res.status(201).json(addEntry(req.params.id, req.body ?? {}));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * PUT /api/glossaries/:id/entries/:entryId
+ * Update an entry
+ */
+router.put("/:id/entries/:entryId", (req: Request, res: Response) => {
+  if (!findGlossary(req, res, true)) return;
+  try {
+    const entry = updateEntry(req.params.id, req.params.entryId, req.body ?? {});
+    if (!entry) {
+      res.status(404).json({ error: "Entry not found" });
+      return;
+    }
+    res.json(entry);
+  } catch (error: any) {
+    res.status(400).json({ error: error.message });
+  }
+});
+
+/**
+ * DELETE /api/glossaries/:id/entries/:entryId
+ * Delete an entry
+ */
+router.delete("/:id/entries/:entryId", (req: Request, res: Response) => {
+  if (!findGlossary(req, res, true)) return;
+  if (!deleteEntry(req.params.id, req.params.entryId)) {
+    res.status(404).json({ error: "Entry not found" });
+    return;
+  }
+  res.json({ ok: true });
+});
+
+/**
+ * POST /api/glossaries/:id/import?format=csv|tbx&mode=merge|replace
+ * Import entries from an uploaded CSV or TBX file
+ */
+router.post("/:id/import", upload.single("file"), (req: Request, res: Response) => {
+  if (!findGlossary(req, res, true)) return;
+  if (!req.file) {
+    res.status(400).json({ error: "No file uploaded" });
+    return;
+  }
+
+  const format = resolveFormat(req.query.format, req.file.originalname);
+  if (!format) {
+    res.status(400).json({ error: "Format must be csv or tbx" });
+    return;
+  }
+
+  const mode = req.query.mode === "replace" ? "replace" : "merge";
+
+  try {
+    const entries = parseGlossaryFile(req.file.buffer.toString("utf8"), format);
+    const glossary = importEntries(req.params.id, entries, mode)!;
+    res.json({ imported: entries.length, entryCount: glossary.entries.length });
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || "Failed to import glossary" });
+  }
+});
+
+/**
+ * GET /api/glossaries/:id/export?format=csv|tbx
+ * Export a glossary as CSV or TBX
+ */
+router.get("/:id/export", (req: Request, res: Response) => {
+  const glossary = findGlossary(req, res);
+  if (!glossary) return;
+
+  const format = resolveFormat(req.query.format);
+  if (!format) {
+    res.status(400).json({ error: "Format must be csv or tbx" });
+    return;
+  }
+
+  setAttachment(res, `${glossary.name}.${format}`);
+
+  if (format === "tbx") {
+    res.setHeader("Content-Type", "application/x-tbx+xml; charset=utf-8");
+    res.send(toGlossaryTbx(glossary));
+  } else {
+    res.setHeader("Content-Type", "text/csv; charset=utf-8");
+    res.send(toGlossaryCsv(glossary));
+  }
+});
+
+export default router;
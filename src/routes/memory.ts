@@ -0,0 +1,39 @@
+/**
+ * Translation memory routes (statistics and TMX export) over the caller's
+ * tenant memory
+ */
+
+import { Router, Request, Response } from "express";
+
+import { getMemoryStats, toTmx } from "../services/memory";
+import { getLanguage, DEFAULT_SOURCE_LANG, DEFAULT_TARGET_LANG } from "../services/languages";
+import { setAttachment } from "../attachment";
+
+const router = Router();
+
+/**
+ * GET /api/memory
+ * Number of translation units per language pair
+ */
+router.get("/", (req: Request, res: Response) => {
+  res.json(getMemoryStats(req.auth?.tenant));
+});
+
+/**
+ * GET /api/memory/export?sourceLang=en&targetLang=zh-TW
+ * Export a language pair as TMX 1.4
+ */
+router.get("/export", (req: Request, res: Response) => {
+  const source = getLanguage(String(req.query.sourceLang || DEFAULT_SOURCE_LANG));
+  const target = getLanguage(String(req.query.targetLang || DEFAULT_TARGET_LANG));
+  if (!source || !target) {
+    res.status(400).json({ error: "Unsupported source/target language pair" });
+    return;
+  }
+
+  setAttachment(res, `translation-memory-${source.code}-${target.code}.tmx`);
+  res.setHeader("Content-Type", "application/x-tmx+xml; charset=utf-8");
+  res.send(toTmx(source.code, target.code, req.auth?.tenant));
+});
+
+export default router;
@@ -0,0 +1,45 @@
+/**
+ * Browser sessions: sign in with an API key once, then use the session cookie
+ */
+
+import { Router, Request, Response } from "express";
+
+import { authenticateKey, createSession, describeSession, endSession } from "../auth";
+
+const router = Router();
+
+/**
+ * GET /api/session
+ * Whether an API key is required and who the caller is signed in as
+ */
+router.get("/", (req: Request, res: Response) => {
+  res.json(describeSession(req));
+});
+
+/**
+ * POST /api/session
+ * Sign in with an API key
+ * Body: { apiKey: string }
+ */
+router.post("/", (req: Request, res: Response) => {
+  const apiKey = req.body?.apiKey;
+  const auth = typeof apiKey === "string" ? authenticateKey(apiKey) : undefined;
+  if (!auth) {
+    res.status(401).json({ error: "Invalid API key" });
+    return;
+  }
+
+  res.setHeader("Set-Cookie", createSession(auth));
+  res.json({ tenant: auth.tenant, admin: auth.admin });
+});
+
+/**
+ * DELETE /api/session
+ * Sign out
+ */
+router.delete("/", (req: Request, res: Response) => {
+  res.setHeader("Set-Cookie", endSession(req));
+  res.json({ ok: true });
+});
+
+export default router;
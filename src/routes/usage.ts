@@ -0,0 +1,85 @@
+/**
+ * Usage and cost report routes over the usage ledger
+ */
+
+import { Router, Request, Response } from "express";
+
+import {
+  UsageGroup,
+  USAGE_GROUPS,
+  formatDay,
+  readUsage,
+  summarizeUsage,
+  toUsageCsv,
+} from "../services/usage";
+import { setAttachment } from "../attachment";
+
+const router = Router();
+
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * GET /api/usage
+ * Token usage, cost and latency of model calls, added up per group
+ * Query:
+ *   from, to - local days YYYY-MM-DD, inclusive (default: this month up to today)
+ *   groupBy - comma-separated: day, user, deployment (default: day; empty for one total row)
+ *   format - json (default) or csv
+ */
+router.get("/", (req: Request, res: Response) => {
+  const today = formatDay(Date.now());
+  const from = String(req.query.from || `${today.slice(0, 7)}-01`);
+  const to = String(req.query.to || today);
+  if (!DAY_PATTERN.test(from) || !DAY_PATTERN.test(to) || from > to) {
+    res.status(400).json({ error: "from and to must be days (YYYY-MM-DD), from <= to" });
+    return;
+  }
+
+  const groupBy = String(req.query.groupBy ?? "day")
+    .split(",")
+    .map((group) => group.trim())
+    .filter(Boolean);
+  const unknown = groupBy.find((group) => !USAGE_GROUPS.includes(group as UsageGroup));
+  if (unknown) {
+    res.status(400).json({ error: `Unknown group: ${unknown} (expected: ${USAGE_GROUPS.join(", ")})` });
+    return;
+  }
+
+  const format = String(req.query.format || "json");
+  if (format !== "json" && format !== "csv") {
+    res.status(400).json({ error: "format must be json or csv" });
+    return;
+  }
+
+  try {
+    const records = readUsage(from, to);
+    const rows = summarizeUsage(records, groupBy as UsageGroup[]);
+
+    if (format === "csv") {
+      setAttachment(res, `usage-${from}-${to}.csv`);
+      res.setHeader("Content-Type", "text/csv; charset=utf-8");
+      res.send(toUsageCsv(rows, groupBy as UsageGroup[]));
+      return;
+    }
+
+    const [total] = summarizeUsage(records, []);
+    res.json({
+      from,
+      to,
+      groupBy,
+      rows,
+      total: total ?? {
+        calls: 0,
+        prompt: 0,
+        completion: 0,
+        reasoning: 0,
+        costUSD: 0,
+        latencyMs: 0,
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+export default router;
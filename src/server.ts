@@ -8,6 +8,7 @@ import multer from "multer";
 import path from "path";
 import fs from "fs";
 import { v4 as uuidv4 } from "uuid";
+import JSZip from "jszip";
 
 import {
   createJob,
@@ -16,26 +17,134 @@ import {
   updateJob,
   finishJob,
   getElapsedSeconds,
+  initJobStore,
+  restartJob,
+  publishJobEvent,
+  subscribeJob,
+  JobEvent,
+  getBatchJobs,
+  getAllJobs,
   JobState,
+  JobOptions,
+  JobUsage,
 } from "./jobs";
-import { convertPdfToDocx } from "./services/adobe";
-import { parseDocx, writeDocx } from "./services/docx";
-import { translateSegments, qaAndRetranslate } from "./services/translator";
+import { createJobRepository } from "./jobStore";
+import { JobQueue } from "./jobQueue";
+import {
+  resolveConverter,
+  ConverterName,
+  CONVERTER_NAMES,
+  OutputFormat,
+  OUTPUT_FORMATS,
+  canRenderPdf,
+  renderPdf,
+} from "./services/converters";
+import {
+  DocxSegment,
+  DocxPartType,
+  ParsedDocx,
+  OPTIONAL_PART_TYPES,
+} from "./services/docx";
+import {
+  documentTypeOf,
+  parseDocument,
+  writeDocument,
+  CONTENT_TYPES,
+  UPLOAD_EXTENSIONS,
+} from "./services/documents";
+import {
+  writeBilingualDocx,
+  OutputVariant,
+  OUTPUT_VARIANTS,
+  TranslationStyle,
+} from "./services/bilingual";
+import { fitLayout, LayoutMode, LAYOUT_MODES } from "./services/layout";
+import { EngineName, ENGINE_NAMES, getEngine, priceUsage } from "./services/engines";
+import {
+  BudgetLimits,
+  BudgetExceededError,
+  checkBudget,
+  checkDailyBudget,
+  defaultJobBudget,
+} from "./services/budget";
+import {
+  translateSegments,
+  qaAndRetranslate,
+  applyTranslationMemory,
+  rememberTranslations,
+  estimateTranslation,
+  TranslateOptions,
+} from "./services/translator";
+import {
+  openReview,
+  getReviewDocument,
+  closeReview,
+  listReviewSegments,
+  editReviewSegment,
+  editReviewSegments,
+} from "./services/review";
+import { XliffTarget, toXliff, readXliffTargets } from "./services/xliff";
+import { initMemoryStore } from "./services/memory";
+import { initUsageLedger } from "./services/usage";
+import {
+  initCheckpointStore,
+  appendCheckpoint,
+  restoreCheckpoint,
+  deleteCheckpoint,
+} from "./services/checkpoint";
+import {
+  initGlossaryStore,
+  resolveGlossaryEntries,
+  getGlossary,
+  DEFAULT_GLOSSARY_ID,
+} from "./services/glossary";
+import {
+  Language,
+  LANGUAGES,
+  getLanguage,
+  DEFAULT_SOURCE_LANG,
+  DEFAULT_TARGET_LANG,
+} from "./services/languages";
+import glossaryRouter from "./routes/glossary";
+import memoryRouter from "./routes/memory";
+import usageRouter from "./routes/usage";
+import sessionRouter from "./routes/session";
+import { requireAuth, requireAdmin, canAccessJob, canAccessGlossary } from "./auth";
+import { setAttachment } from "./attachment";
 
 const app = express();
 const PORT = process.env.PORT || 3000;
+const MAX_BATCH_FILES = parseInt(process.env.MAX_BATCH_FILES || "20");
 
 // Ensure directories exist
-const UPLOAD_DIR = path.join(__dirname, "..", "uploads");
-const WORK_DIR = path.join(__dirname, "..", "work");
-const OUTPUT_DIR = path.join(__dirname, "..", "output");
+const UPLOAD_DIR = process.env.UPLOAD_DIR || path.join(__dirname, "..", "uploads");
+const WORK_DIR = process.env.WORK_DIR || path.join(__dirname, "..", "work");
+const OUTPUT_DIR = process.env.OUTPUT_DIR || path.join(__dirname, "..", "output");
+const DATA_DIR = process.env.DATA_DIR || path.join(__dirname, "..", "data");
 
-[UPLOAD_DIR, WORK_DIR, OUTPUT_DIR].forEach((dir) => {
+[UPLOAD_DIR, WORK_DIR, OUTPUT_DIR, DATA_DIR].forEach((dir) => {
   if (!fs.existsSync(dir)) {
     fs.mkdirSync(dir, { recursive: true });
   }
 });
 
+initGlossaryStore(path.join(DATA_DIR, "glossaries"));
+initJobStore(createJobRepository(DATA_DIR));
+initCheckpointStore(path.join(DATA_DIR, "checkpoints"));
+initMemoryStore(path.join(DATA_DIR, "memory"));
+initUsageLedger(path.join(DATA_DIR, "usage"));
+
+// At most MAX_CONCURRENT_JOBS jobs are processed at once (2 unless set to a
+// positive integer); waiting jobs hear about their new queue position
+const configuredConcurrency = parseInt(process.env.MAX_CONCURRENT_JOBS || "2");
+const MAX_CONCURRENT_JOBS = configuredConcurrency > 0 ? configuredConcurrency : 2;
+const jobQueue = new JobQueue(MAX_CONCURRENT_JOBS, (waitingIds) => {
+  for (const id of waitingIds) {
+    const job = getJob(id);
+    if (job) publishJobEvent(job, { type: "status" });
+  }
+});
+
 // Configure multer for file uploads
 const storage = multer.diskStorage({
   destination: (req, file, cb) => {
@@ -51,10 +160,10 @@ const upload = multer({
   storage,
   fileFilter: (req, file, cb) => {
     const ext = path.extname(file.originalname).toLowerCase();
-    if (ext === ".pdf" || ext === ".docx") {
+    if (UPLOAD_EXTENSIONS.includes(ext)) {
       cb(null, true);
     } else {
-      cb(new Error("Only .pdf and .docx files are allowed"));
+      cb(new Error(`Only ${UPLOAD_EXTENSIONS.join(", ")} files are allowed`));
     }
   },
   limits: {
@@ -62,50 +171,139 @@ const upload = multer({
   },
 });
 
+// Reviewed XLIFF files are parsed directly; keep them in memory
+const xliffUpload = multer({
+  storage: multer.memoryStorage(),
+  limits: {
+    fileSize: 50 * 1024 * 1024, // 50MB limit
+  },
+});
+
 // Serve static frontend
 app.use(express.static(path.join(__dirname, "..", "public")));
 app.use(express.json());
 
+// Everything under /api but signing in needs an API key or session (when keys are configured)
+app.use("/api/session", sessionRouter);
+app.use("/api", requireAuth);
+
+app.use("/api/glossaries", glossaryRouter);
+app.use("/api/memory", memoryRouter);
+app.use("/api/usage", requireAdmin, usageRouter);
+
+/**
+ * A job the caller may see; other tenants' jobs answer 404 like missing ones
+ */
+function getOwnedJob(req: Request, id: string): JobState | undefined {
+  const job = getJob(id);
+  return job && canAccessJob(req, job) ? job : undefined;
+}
+
+/**
+ * Translate options for a set of job options
+ */
+function translateOptionsFor(options: JobOptions): TranslateOptions {
+  return {
+    sourceLang: options.sourceLang,
+    targetLang: options.targetLang,
+    glossary: resolveGlossaryEntries(options.glossaryIds),
+    inlineTags: options.inlineTags,
+    engine: options.engine,
+  };
+}
+
+/**
+ * Options for translating and remembering a job's segments
+ */
+function buildTranslateOptions(job: JobState): TranslateOptions {
+  return {
+    ...translateOptionsFor(job.options),
+    onBatchComplete: (done: DocxSegment[]) => {
+      appendCheckpoint(job.id, done);
+      publishJobEvent(job, { type: "batch", segmentIds: done.map((seg) => seg.id) });
+    },
+  };
+}
+
+/**
+ * Wait for a free slot in the job queue, then process the job
+ */
+function enqueueJob(job: JobState, resume = false): void {
+  updateJob(job, { status: "queued", stepMessage: "排隊中..." });
+  jobQueue.enqueue(job.id, async () => {
+    if (!job.cancelled) {
+      await processJob(job, resume);
+    }
+  });
+}
+
+/**
+ * Record a failed job; it stays resumable while its input is on disk
+ */
+function failJob(job: JobState, error: any): void {
+  console.error(`Job ${job.id} failed:`, error);
+  const input = job.workingDocxPath ?? job.uploadedFilePath;
+  updateJob(job, {
+    status: "error",
+    errorMessage: error.message || "Unknown error",
+    stepMessage: "處理失敗",
+    finishedAt: Date.now(),
+    resumable: !!input && fs.existsSync(input),
+  });
+}
+
 /**
  * Process a job in the background
+ * When resuming, the working DOCX from the previous run is reused and
+ * segments are restored from the job's checkpoint before translating.
  */
-async function processJob(job: JobState, uploadedFilePath: string): Promise<void> {
+async function processJob(job: JobState, resume = false): Promise<void> {
   const ext = path.extname(job.fileName).toLowerCase();
-  const baseName = path.basename(job.fileName, ext);
+  const documentType = documentTypeOf(job.fileName);
+  const uploadedFilePath = job.uploadedFilePath!;
 
   try {
     job.startedAt = Date.now();
     let workingDocxPath: string;
 
     // Step 1: Convert PDF to DOCX if needed
-    if (ext === ".pdf") {
+    if (resume && job.workingDocxPath && fs.existsSync(job.workingDocxPath)) {
+      workingDocxPath = job.workingDocxPath;
+    } else if (ext === ".pdf") {
       updateJob(job, {
         status: "converting",
         stepMessage: "正在將 PDF 轉換為 DOCX...",
         progress: 5,
       });
 
+      const converter = resolveConverter(job.options.converter);
+      updateJob(job, { converterUsed: converter.name });
+
       workingDocxPath = path.join(WORK_DIR, `${uuidv4()}.docx`);
-      await convertPdfToDocx(uploadedFilePath, workingDocxPath);
+      await converter.convert(uploadedFilePath, workingDocxPath);
+      updateJob(job, { workingDocxPath });
 
       if (job.cancelled) {
         console.log("Job cancelled after PDF conversion");
         return;
       }
     } else {
-      // DOCX file - copy to work directory
-      workingDocxPath = path.join(WORK_DIR, `${uuidv4()}.docx`);
+      // DOCX, PPTX or XLSX file - copy to work directory
+      workingDocxPath = path.join(WORK_DIR, `${uuidv4()}.${documentType}`);
       fs.copyFileSync(uploadedFilePath, workingDocxPath);
+      updateJob(job, { workingDocxPath });
     }
 
-    // Step 2: Parse DOCX
+    // Step 2: Parse the document
     updateJob(job, {
       status: "parsing-docx",
-      stepMessage: "正在解析 DOCX 文件...",
+      stepMessage: `正在解析 ${documentType.toUpperCase()} 文件...`,
       progress: 15,
     });
 
-    const parsed = await parseDocx(workingDocxPath);
+    const parsed = await parseDocument(documentType, workingDocxPath, {
+      partTypes: job.options.partTypes,
+    });
     job.totalSegments = parsed.segments.length;
 
     if (job.cancelled) {
@@ -113,6 +311,30 @@ async function processJob(job: JobState, uploadedFilePath: string): Promise<void
       return;
     }
 
+    // Restore segments translated before the interruption
+    if (resume) {
+      const restored = restoreCheckpoint(job.id, parsed.segments);
+      console.log(`Job ${job.id}: restored ${restored} segments from checkpoint`);
+    }
+
+    // Optional pre-flight estimate: wait for POST /api/jobs/:id/confirm
+    if (job.options.confirmEstimate && !job.estimateConfirmed) {
+      const estimate = estimateTranslation(
+        parsed.segments.filter((seg) => seg.translated === undefined),
+        buildTranslateOptions(job)
+      );
+      updateJob(job, {
+        status: "estimated",
+        stepMessage: `預估費用 US$${estimate.costUSD.toFixed(4)}，等待確認...`,
+        estimate,
+      });
+      console.log(`Job ${job.id} waiting for estimate confirmation`);
+      return;
+    }
+
+    // Do not start on a budget that is already spent
+    checkBudget(job);
+
     // Step 3: Translate
     updateJob(job, {
       status: "translating",
@@ -120,10 +342,18 @@ async function processJob(job: JobState, uploadedFilePath: string): Promise<void
       progress: 20,
     });
 
-    await translateSegments(job, parsed.segments, {
-      sourceLang: "English",
-      targetLang: "Traditional Chinese",
-    });
+    const translateOptions = buildTranslateOptions(job);
+
+    // Exact translation memory hits skip the model; fuzzy hits become references
+    const untranslated = parsed.segments.filter((seg) => seg.translated === undefined);
+    const references = job.options.useMemory
+      ? applyTranslationMemory(job, untranslated, translateOptions)
+      : undefined;
+
+    // Only segments without a restored or remembered translation go to the model
+    const remaining = untranslated.filter((seg) => seg.translated === undefined);
+
+    await translateSegments(job, remaining, { ...translateOptions, references });
 
     if (job.cancelled) {
       console.log("Job cancelled after translation");
@@ -131,55 +361,130 @@ async function processJob(job: JobState, uploadedFilePath: string): Promise<void
     }
 
     // Step 4: QA and retranslate
-    await qaAndRetranslate(job, parsed.segments, {
-      sourceLang: "English",
-      targetLang: "Traditional Chinese",
-    });
+    await qaAndRetranslate(job, parsed.segments, translateOptions);
 
     if (job.cancelled) {
       console.log("Job cancelled after QA");
       return;
     }
 
-    // Step 5: Pack output DOCX
-    updateJob(job, {
-      status: "packing",
-      stepMessage: "正在打包翻譯後的文件...",
-      progress: 95,
-    });
-
-    const outputPath = path.join(OUTPUT_DIR, `${baseName}-translated.docx`);
-    await writeDocx(parsed, outputPath);
-
-    // Done
-    job.outputPath = outputPath;
-    finishJob(job, "done");
-    updateJob(job, {
-      stepMessage: "完成！",
-    });
-
-    console.log(`Job ${job.id} completed successfully`);
-
-    // Cleanup: remove uploaded file and working file
-    try {
-      fs.unlinkSync(uploadedFilePath);
-      fs.unlinkSync(workingDocxPath);
-    } catch (e) {
-      // Ignore cleanup errors
+    // Optional review: wait for POST /api/jobs/:id/finalize before packing
+    if (job.options.review) {
+      openReview(job, parsed);
+      updateJob(job, {
+        status: "review",
+        stepMessage: "等待人工審閱...",
+        progress: 90,
+      });
+      console.log(`Job ${job.id} waiting for review`);
+      return;
     }
+
+    await packJob(job, parsed);
   } catch (error: any) {
     if (job.cancelled) {
       console.log(`Job ${job.id} was cancelled`);
       return;
     }
+    if (error instanceof BudgetExceededError) {
+      // Translated batches are checkpointed; resuming continues from there
+      updateJob(job, {
+        status: "budget-exceeded",
+        stepMessage: "已超出預算，等待核准...",
+        errorMessage: error.message,
+        budgetExceeded: error.scope,
+        resumable: true,
+      });
+      console.log(`Job ${job.id} paused: ${error.message}`);
+      return;
+    }
+    failJob(job, error);
+  }
+}
 
-    console.error(`Job ${job.id} failed:`, error);
-    updateJob(job, {
-      status: "error",
-      errorMessage: error.message || "Unknown error",
-      stepMessage: "處理失敗",
-      finishedAt: Date.now(),
+/**
+ * Step 5: write the output documents, store the translations and clean up
+ */
+async function packJob(job: JobState, parsed: ParsedDocx): Promise<void> {
+  const baseName = path.basename(job.fileName, path.extname(job.fileName));
+  const documentType = documentTypeOf(job.fileName);
+
+  updateJob(job, {
+    status: "packing",
+    stepMessage: "正在打包翻譯後的文件...",
+    progress: 95,
+  });
+
+  // Fit translations into fixed-size cells, text boxes and frames
+  job.layoutIssues = await fitLayout(parsed, job.options.layoutMode ?? "flag");
+
+  // Each job gets its own directory so uploads with the same name never share a path
+  const jobOutputDir = path.join(OUTPUT_DIR, job.id);
+  fs.mkdirSync(jobOutputDir, { recursive: true });
+
+  const outputPath = path.join(jobOutputDir, `${baseName}-translated.${documentType}`);
+  await writeDocument(documentType, parsed, outputPath);
+
+  // Bilingual variants are built from the same parsed document
+  const variantPaths: Partial<Record<OutputVariant, string>> = {};
+  for (const variant of job.options.outputVariants ?? []) {
+    const variantPath = path.join(jobOutputDir, `${baseName}-${variant}.docx`);
+    await writeBilingualDocx(parsed, variant, variantPath, {
+      style: job.options.translationStyle,
+      headers: [
+        getLanguage(job.options.sourceLang)?.label ?? job.options.sourceLang,
+        getLanguage(job.options.targetLang)?.label ?? job.options.targetLang,
+      ],
     });
+    variantPaths[variant] = variantPath;
+  }
+
+  let pdfOutputPath: string | undefined;
+  if ((job.options.outputFormat ?? "docx") === "pdf") {
+    updateJob(job, { stepMessage: "正在產生 PDF..." });
+    pdfOutputPath = path.join(jobOutputDir, `${baseName}-translated.pdf`);
+    await renderPdf(
+      outputPath,
+      pdfOutputPath,
+      process.env.PDF_CJK_FONT || getLanguage(job.options.targetLang)?.pdfFont
+    );
+  }
+
+  if (job.options.useMemory) {
+    rememberTranslations(job, parsed.segments, buildTranslateOptions(job));
+  }
+
+  // Done
+  job.outputPath = outputPath;
+  job.variantPaths = variantPaths;
+  job.pdfOutputPath = pdfOutputPath;
+  finishJob(job, "done");
+  updateJob(job, {
+    stepMessage: "完成！",
+  });
+
+  console.log(`Job ${job.id} completed successfully`);
+
+  // Cleanup: remove checkpoint, uploaded file and working file
+  deleteCheckpoint(job.id);
+  try {
+    fs.unlinkSync(job.uploadedFilePath!);
+    fs.unlinkSync(job.workingDocxPath!);
+  } catch (e) {
+    // Ignore cleanup errors
+  }
+}
+
+/**
+ * Pack a reviewed job with the reviewer's edits
+ */
+async function finalizeJob(job: JobState): Promise<void> {
+  try {
+    const parsed = await getReviewDocument(job);
+    await packJob(job, parsed);
+    closeReview(job.id);
+  } catch (error: any) {
+    failJob(job, error);
   }
 }
 
@@ -197,57 +502,732 @@ function fixFilenameEncoding(filename: string): string {
   }
 }
 
+/**
+ * Check whether a glossary was written for the given language pair
+ */
+function glossaryMatchesLanguages(id: string, sourceLang: string, targetLang: string): boolean {
+  const glossary = getGlossary(id);
+  return (
+    !!glossary &&
+    getLanguage(glossary.sourceLang)?.code === sourceLang &&
+    getLanguage(glossary.targetLang)?.code === targetLang
+  );
+}
+
+/**
+ * Parse the comma-separated glossaryIds upload field.
+ * Falls back to the default glossary when the field is absent and its
+ * language pair matches the job; an empty value means no glossary.
+ */
+function parseGlossaryIds(value: unknown, sourceLang: string, targetLang: string): string[] {
+  if (value === undefined || value === null) {
+    return glossaryMatchesLanguages(DEFAULT_GLOSSARY_ID, sourceLang, targetLang)
+      ? [DEFAULT_GLOSSARY_ID]
+      : [];
+  }
+  return String(value)
+    .split(",")
+    .map((id) => id.trim())
+    .filter((id) => id.length > 0);
+}
+
+/**
+ * Parse the comma-separated parts upload field (optional document parts to translate).
+ * Absent means every part type; an empty value means the body only.
+ * Returns null when an unknown part type is given.
+ */
+function parsePartTypes(value: unknown): DocxPartType[] | null {
+  if (value === undefined || value === null) {
+    return [...OPTIONAL_PART_TYPES];
+  }
+  const requested = String(value)
+    .split(",")
+    .map((type) => type.trim())
+    .filter((type) => type.length > 0);
+  if (requested.some((type) => !OPTIONAL_PART_TYPES.includes(type as DocxPartType))) {
+    return null;
+  }
+  return OPTIONAL_PART_TYPES.filter((type) => requested.includes(type));
+}
+
+/**
+ * Parse the comma-separated variants upload field (bilingual output documents).
+ * Returns null when an unknown variant is given.
+ */
+function parseOutputVariants(value: unknown): OutputVariant[] | null {
+  const requested = String(value ?? process.env.OUTPUT_VARIANTS ?? "")
+    .split(",")
+    .map((variant) => variant.trim())
+    .filter((variant) => variant.length > 0);
+  if (requested.some((variant) => !OUTPUT_VARIANTS.includes(variant as OutputVariant))) {
+    return null;
+  }
+  return OUTPUT_VARIANTS.filter((variant) => requested.includes(variant));
+}
+
+/**
+ * Style of translated paragraphs in interleaved output, from upload fields
+ * with BILINGUAL_COLOR / BILINGUAL_ITALIC as defaults
+ */
+function parseTranslationStyle(body: any): TranslationStyle | null {
+  const color = String(body?.translationColor ?? process.env.BILINGUAL_COLOR ?? "2E74B5")
+    .replace(/^#/, "")
+    .toUpperCase();
+  if (color && !/^[0-9A-F]{6}$/.test(color)) {
+    return null;
+  }
+  const italic = String(body?.translationItalic ?? process.env.BILINGUAL_ITALIC ?? "false");
+  return { color: color || undefined, italic: italic === "true" };
+}
+
+/**
+ * Job budget from upload fields, with JOB_MAX_COST_USD / JOB_MAX_TOKENS as defaults
+ */
+function parseBudget(body: any): BudgetLimits | null {
+  const budget = defaultJobBudget();
+  for (const field of ["maxCostUSD", "maxTokens"] as const) {
+    if (body?.[field] === undefined || body[field] === "") continue;
+    const value = Number(body[field]);
+    if (!(value > 0)) return null;
+    budget[field] = value;
+  }
+  return budget;
+}
+
+/**
+ * Language of an upload field, the default when unset; anything but a string
+ * (a field sent twice arrives as an array) is unsupported
+ */
+function parseLanguageField(value: unknown, defaultLang: string): Language | undefined {
+  if (value === undefined || value === "") return getLanguage(defaultLang);
+  return typeof value === "string" ? getLanguage(value) : undefined;
+}
+
+/**
+ * Job options from the upload form fields, with env defaults, or the error
+ * message of the first invalid field
+ */
+function parseJobOptions(req: Request): { options: JobOptions } | { error: string } {
+  const body = req.body;
+  const sourceLang = parseLanguageField(body?.sourceLang, DEFAULT_SOURCE_LANG);
+  const targetLang = parseLanguageField(body?.targetLang, DEFAULT_TARGET_LANG);
+  if (!sourceLang || !targetLang || sourceLang.code === targetLang.code) {
+    return { error: "Unsupported source/target language pair" };
+  }
+
+  const glossaryIds = parseGlossaryIds(body?.glossaryIds, sourceLang.code, targetLang.code);
+  const unknownGlossary = glossaryIds.find((id) => {
+    const glossary = getGlossary(id);
+    return !glossary || !canAccessGlossary(req, glossary);
+  });
+  if (unknownGlossary) {
+    return { error: `Glossary not found: ${unknownGlossary}` };
+  }
+
+  const mismatched = glossaryIds.find(
+    (id) => !glossaryMatchesLanguages(id, sourceLang.code, targetLang.code)
+  );
+  if (mismatched) {
+    return { error: `Glossary ${mismatched} does not match ${sourceLang.code} -> ${targetLang.code}` };
+  }
+
+  const partTypes = parsePartTypes(body?.parts);
+  if (!partTypes) {
+    return { error: `Unknown document part (expected: ${OPTIONAL_PART_TYPES.join(", ")})` };
+  }
+
+  const outputVariants = parseOutputVariants(body?.variants);
+  if (!outputVariants) {
+    return { error: `Unknown output variant (expected: ${OUTPUT_VARIANTS.join(", ")})` };
+  }
+
+  const translationStyle = parseTranslationStyle(body);
+  if (!translationStyle) {
+    return { error: "translationColor must be a hex RGB value, e.g. 2E74B5" };
+  }
+
+  const layoutMode = String(body?.layoutMode || process.env.LAYOUT_MODE || "flag");
+  if (!LAYOUT_MODES.includes(layoutMode as LayoutMode)) {
+    return { error: `Unknown layout mode (expected: ${LAYOUT_MODES.join(", ")})` };
+  }
+
+  const engine = String(body?.engine || process.env.TRANSLATION_ENGINE || "azure");
+  if (!ENGINE_NAMES.includes(engine as EngineName)) {
+    return { error: `Unknown engine (expected: ${ENGINE_NAMES.join(", ")})` };
+  }
+
+  const converter = String(body?.converter || process.env.PDF_CONVERTER || "adobe");
+  if (!CONVERTER_NAMES.includes(converter as ConverterName)) {
+    return { error: `Unknown PDF converter (expected: ${CONVERTER_NAMES.join(", ")})` };
+  }
+
+  const outputFormat = String(body?.outputFormat || process.env.OUTPUT_FORMAT || "docx");
+  if (!OUTPUT_FORMATS.includes(outputFormat as OutputFormat)) {
+    return { error: `Unknown output format (expected: ${OUTPUT_FORMATS.join(", ")})` };
+  }
+  if (outputFormat === "pdf" && !canRenderPdf()) {
+    return { error: "PDF output needs LibreOffice (set LIBREOFFICE_PATH)" };
+  }
+
+  const budget = parseBudget(body);
+  if (!budget) {
+    return { error: "maxCostUSD and maxTokens must be positive numbers" };
+  }
+
+  return {
+    options: {
+      sourceLang: sourceLang.code,
+      targetLang: targetLang.code,
+      glossaryIds,
+      useMemory:
+        body?.useMemory !== undefined
+          ? body.useMemory !== "false"
+          : process.env.TM_ENABLED !== "false",
+      partTypes,
+      inlineTags:
+        body?.inlineTags !== undefined
+          ? body.inlineTags !== "false"
+          : process.env.INLINE_TAGS !== "false",
+      outputVariants,
+      translationStyle,
+      layoutMode: layoutMode as LayoutMode,
+      review:
+        body?.review !== undefined
+          ? body.review === "true"
+          : process.env.REVIEW_ENABLED === "true",
+      engine: engine as EngineName,
+      converter: converter as ConverterName,
+      outputFormat: outputFormat as OutputFormat,
+      confirmEstimate:
+        body?.confirmEstimate !== undefined
+          ? body.confirmEstimate === "true"
+          : process.env.CONFIRM_ESTIMATE === "true",
+      budget,
+    },
+  };
+}
+
 /**
  * POST /api/upload
- * Upload a PDF or DOCX file and start processing
+ * Upload PDF, DOCX, PPTX or XLSX files (one or more "file" fields, up to
+ * MAX_BATCH_FILES) and queue them as one batch with the same options
+ * Optional form fields:
+ *   sourceLang, targetLang - language codes (default: en -> zh-TW)
+ *   glossaryIds - comma-separated glossary IDs (default: "default")
+ *   useMemory - "false" to bypass the translation memory (default: TM_ENABLED)
+ *   parts - comma-separated document parts to translate besides the body:
+ *           header, footer, footnote, endnote, comment, textbox (DOCX),
+ *           notes (PPTX speaker notes) (default: all)
+ *   inlineTags - "false" to drop run-level formatting (default: INLINE_TAGS)
+ *   variants - comma-separated bilingual outputs: interleaved, table, comments
+ *              (DOCX and PDF uploads; default: OUTPUT_VARIANTS, none when unset)
+ *   translationColor, translationItalic - translated paragraph style for interleaved output
+ *   layoutMode - off, flag, shrink or autofit for overflowing cells/text boxes (default: LAYOUT_MODE)
+ *   review - "true" to pause after QA for post-editing (default: REVIEW_ENABLED)
+ *   engine - translation engine: azure, openai or mock (default: TRANSLATION_ENGINE)
+ *   converter - PDF converter: adobe, libreoffice or text (default: PDF_CONVERTER)
+ *   outputFormat - docx, or pdf to also render the translation to PDF (default: OUTPUT_FORMAT)
+ *   confirmEstimate - "true" to pause after parsing with a cost estimate until
+ *                     POST /api/jobs/:id/confirm (default: CONFIRM_ESTIMATE)
+ *   maxCostUSD, maxTokens - per-job budget; over it the job pauses until
+ *                           POST /api/jobs/:id/approve-budget (default: JOB_MAX_COST_USD, JOB_MAX_TOKENS)
+ * The jobs belong to the caller's tenant and count against its API key's daily budget
  */
-app.post("/api/upload", upload.single("file"), (req: Request, res: Response) => {
-  if (!req.file) {
+app.post("/api/upload", upload.array("file", MAX_BATCH_FILES), (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  if (files.length === 0) {
     res.status(400).json({ error: "No file uploaded" });
     return;
   }
 
-  const jobId = uuidv4();
-  // Fix filename encoding from Latin-1 to UTF-8
-  const originalName = fixFilenameEncoding(req.file.originalname);
-  const job = createJob(jobId, originalName);
+  const rejectUpload = (error: string) => {
+    for (const file of files) {
+      fs.unlink(file.path, () => {});
+    }
+    res.status(400).json({ error });
+  };
 
-  // Respond immediately with job ID
-  res.json({ jobId });
+  const parsedOptions = parseJobOptions(req);
+  if ("error" in parsedOptions) {
+    rejectUpload(parsedOptions.error);
+    return;
+  }
+  const { options } = parsedOptions;
 
-  // Process in background
-  (async () => {
-    await processJob(job, req.file!.path);
-  })();
+  // Bilingual layouts are Word documents; the OUTPUT_VARIANTS default does not apply elsewhere
+  const wordFile = (file: Express.Multer.File) => documentTypeOf(file.originalname) === "docx";
+  if (req.body?.variants && options.outputVariants.length > 0 && !files.every(wordFile)) {
+    rejectUpload("Bilingual variants are only available for DOCX and PDF files");
+    return;
+  }
+
+  const batchId = uuidv4();
+  const jobIds: string[] = [];
+  for (const file of files) {
+    // Fix filename encoding from Latin-1 to UTF-8
+    const originalName = fixFilenameEncoding(file.originalname);
+    const job = createJob(
+      uuidv4(),
+      originalName,
+      { ...options, outputVariants: wordFile(file) ? options.outputVariants : [] },
+      batchId
+    );
+    updateJob(job, {
+      uploadedFilePath: file.path,
+      tenant: req.auth?.tenant,
+      apiKeyId: req.auth?.keyId,
+    });
+    jobIds.push(job.id);
+
+    // Processed in the background once the queue has a free slot
+    enqueueJob(job);
+  }
+
+  // Respond immediately with the job IDs (jobId: the first, for single-file uploads)
+  res.json({ jobId: jobIds[0], jobIds, batchId });
 });
 
 /**
- * GET /api/status/:jobId
- * Get the current status of a job
+ * POST /api/estimate
+ * Expected tokens and cost of translating PDF, DOCX, PPTX or XLSX files
+ * (one or more "file" fields) without translating them
+ * Takes the same form fields as /api/upload; PDFs are converted first.
+ * Covers the translation batches only: translation memory hits are not
+ * subtracted, QA retranslation and glossary repairs come on top.
  */
-app.get("/api/status/:jobId", (req: Request, res: Response) => {
-  const job = getJob(req.params.jobId);
+app.post("/api/estimate", upload.array("file", MAX_BATCH_FILES), async (req: Request, res: Response) => {
+  const files = (req.files as Express.Multer.File[] | undefined) ?? [];
+  if (files.length === 0) {
+    res.status(400).json({ error: "No file uploaded" });
+    return;
+  }
+
+  const temporary = files.map((file) => file.path);
+  try {
+    const parsedOptions = parseJobOptions(req);
+    if ("error" in parsedOptions) {
+      res.status(400).json({ error: parsedOptions.error });
+      return;
+    }
+    const { options } = parsedOptions;
+
+    const estimates = [];
+    for (const file of files) {
+      let documentPath = file.path;
+      if (path.extname(file.originalname).toLowerCase() === ".pdf") {
+        documentPath = path.join(WORK_DIR, `${uuidv4()}.docx`);
+        temporary.push(documentPath);
+        await resolveConverter(options.converter).convert(file.path, documentPath);
+      }
+
+      const parsed = await parseDocument(documentTypeOf(file.originalname), documentPath, {
+        partTypes: options.partTypes,
+      });
+      estimates.push({
+        fileName: fixFilenameEncoding(file.originalname),
+        ...estimateTranslation(parsed.segments, translateOptionsFor(options)),
+      });
+    }
+
+    const usage: JobUsage = { prompt: 0, completion: 0, reasoning: 0 };
+    for (const estimate of estimates) {
+      usage.prompt += estimate.usage.prompt;
+      usage.completion += estimate.usage.completion;
+    }
+
+    res.json({
+      engine: options.engine,
+      files: estimates,
+      total: {
+        segments: estimates.reduce((sum, estimate) => sum + estimate.segments, 0),
+        batches: estimates.reduce((sum, estimate) => sum + estimate.batches, 0),
+        usage,
+        costUSD: priceUsage(usage, getEngine(options.engine).price),
+      },
+    });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message || "Failed to estimate" });
+  } finally {
+    for (const filePath of temporary) {
+      fs.unlink(filePath, () => {});
+    }
+  }
+});
+
+/**
+ * POST /api/jobs/:id/approve-budget
+ * Approve the overrun of a job paused over budget and resume it from its
+ * checkpoint; the job's own budget is not checked again, its API key's daily
+ * budget still is (admin API keys only). Approval cannot lift the daily
+ * budget: a job paused by it answers 409 until its key is under the daily cap
+ * again (the next day, or after the cap is raised).
+ */
+app.post("/api/jobs/:id/approve-budget", requireAdmin, (req: Request, res: Response) => {
+  const job = getOwnedJob(req, req.params.id);
+
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+
+  if (job.status !== "budget-exceeded") {
+    res.status(409).json({ error: "Job is not over budget" });
+    return;
+  }
+
+  if (job.budgetExceeded === "daily") {
+    try {
+      checkDailyBudget(job);
+    } catch (error: any) {
+      res.status(409).json({ error: `${error.message}; approval cannot lift the daily budget` });
+      return;
+    }
+  } else {
+    job.budgetApproved = true;
+  }
+
+  job.budgetExceeded = undefined;
+  restartJob(job);
+  res.json({ ok: true });
+
+  enqueueJob(job, true);
+});
+
+/**
+ * POST /api/jobs/:id/confirm
+ * Accept the cost estimate of a job uploaded with confirmEstimate and translate it
+ */
+app.post("/api/jobs/:id/confirm", (req: Request, res: Response) => {
+  const job = getOwnedJob(req, req.params.id);
+
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+
+  if (job.status !== "estimated") {
+    res.status(409).json({ error: "Job is not waiting for estimate confirmation" });
+    return;
+  }
+
+  updateJob(job, { estimateConfirmed: true });
+  res.json({ ok: true });
+
+  // Continues from the parsed working document once the queue has a free slot
+  enqueueJob(job, true);
+});
+
+/**
+ * POST /api/resume/:jobId
+ * Resume a failed or interrupted job from its checkpoint
+ */
+app.post("/api/resume/:jobId", (req: Request, res: Response) => {
+  const job = getOwnedJob(req, req.params.jobId);
+
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+
+  if ((job.status !== "error" && job.status !== "interrupted") || !job.resumable) {
+    res.status(409).json({ error: "Job cannot be resumed" });
+    return;
+  }
+
+  restartJob(job);
+  res.json({ ok: true });
+
+  enqueueJob(job, true);
+});
 
+/**
+ * Look up a job that is waiting for review, answering 404/409 otherwise
+ */
+function getReviewJob(req: Request, res: Response): JobState | undefined {
+  const job = getOwnedJob(req, req.params.id);
   if (!job) {
     res.status(404).json({ error: "Job not found" });
+    return undefined;
+  }
+  if (job.status !== "review") {
+    res.status(409).json({ error: "Job is not waiting for review" });
+    return undefined;
+  }
+  return job;
+}
+
+/**
+ * GET /api/jobs/:id/segments
+ * List segments of a job under review
+ * Query: page (default 1), pageSize (default 50, max 200), flagged ("true": only flagged segments)
+ */
+app.get("/api/jobs/:id/segments", async (req: Request, res: Response) => {
+  const job = getReviewJob(req, res);
+  if (!job) return;
+
+  const page = Math.max(1, parseInt(String(req.query.page || "1")) || 1);
+  const pageSize = Math.min(200, Math.max(1, parseInt(String(req.query.pageSize || "50")) || 50));
+
+  try {
+    res.json(await listReviewSegments(job, { page, pageSize, flagged: req.query.flagged === "true" }));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * PUT /api/jobs/:id/segments/:segmentId
+ * Replace a segment's translation
+ * Body: { translated: string }
+ */
+app.put("/api/jobs/:id/segments/:segmentId", async (req: Request, res: Response) => {
+  const job = getReviewJob(req, res);
+  if (!job) return;
+
+  const translated = req.body?.translated;
+  if (typeof translated !== "string" || translated.trim().length === 0) {
+    res.status(400).json({ error: "translated must be a non-empty string" });
+    return;
+  }
+
+  try {
+    const segment = await editReviewSegment(job, Number(req.params.segmentId), translated);
+    if (!segment) {
+      res.status(404).json({ error: "Segment not found" });
+      return;
+    }
+    res.json(segment);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/jobs/:id/finalize
+ * Finish the review and pack the output documents
+ */
+app.post("/api/jobs/:id/finalize", (req: Request, res: Response) => {
+  const job = getReviewJob(req, res);
+  if (!job) return;
+
+  updateJob(job, { status: "packing", stepMessage: "審閱完成，正在打包..." });
+  res.json({ ok: true });
+
+  // Pack in background
+  (async () => {
+    await finalizeJob(job);
+  })();
+});
+
+/**
+ * GET /api/jobs/:id/xliff
+ * Export the segments of a job under review as XLIFF 2.0
+ */
+app.get("/api/jobs/:id/xliff", async (req: Request, res: Response) => {
+  const job = getReviewJob(req, res);
+  if (!job) return;
+
+  try {
+    const parsed = await getReviewDocument(job);
+    const baseName = path.basename(job.fileName, path.extname(job.fileName));
+    setAttachment(res, `${baseName}.xlf`);
+    res.setHeader("Content-Type", "application/xliff+xml; charset=utf-8");
+    res.send(toXliff(job, parsed));
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
+});
+
+/**
+ * POST /api/jobs/:id/xliff
+ * Import a reviewed XLIFF 2.0 file (field "file") and pack the output documents
+ */
+app.post("/api/jobs/:id/xliff", xliffUpload.single("file"), async (req: Request, res: Response) => {
+  const job = getReviewJob(req, res);
+  if (!job) return;
+
+  if (!req.file) {
+    res.status(400).json({ error: "No file uploaded" });
+    return;
+  }
+
+  let translations: Map<number, XliffTarget>;
+  try {
+    translations = readXliffTargets(await getReviewDocument(job), req.file.buffer.toString("utf8"));
+  } catch (error: any) {
+    res.status(400).json({ error: error.message || "Failed to read XLIFF file" });
     return;
   }
 
+  try {
+    const updated = await editReviewSegments(job, translations);
+    updateJob(job, { status: "packing", stepMessage: "已匯入審閱結果，正在打包..." });
+    res.json({ imported: translations.size, updated });
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+    return;
+  }
+
+  // Pack in background
+  (async () => {
+    await finalizeJob(job);
+  })();
+});
+
+/**
+ * GET /api/languages
+ * List supported source/target languages
+ */
+app.get("/api/languages", (req: Request, res: Response) => {
+  res.json(
+    LANGUAGES.map((l) => ({
+      code: l.code,
+      name: l.name,
+      label: l.label,
+    }))
+  );
+});
+
+/**
+ * Status of a job as reported to clients
+ */
+function jobStatusBody(job: JobState) {
   const elapsedSeconds = getElapsedSeconds(job);
   const downloadable = job.status === "done" && !!job.outputPath;
 
-  res.json({
+  return {
     id: job.id,
+    batchId: job.batchId,
     fileName: job.fileName,
+    sourceLang: job.options.sourceLang,
+    targetLang: job.options.targetLang,
     status: job.status,
+    queuePosition: jobQueue.position(job.id),
     progress: job.progress,
     stepMessage: job.stepMessage,
     errorMessage: job.errorMessage,
     elapsedSeconds,
     usage: job.usage,
+    memoryStats: job.memoryStats,
+    retryStats: job.retryStats,
     costUSD: job.costUSD,
+    estimate: job.estimate,
+    budget: job.options.budget,
+    budgetExceeded: job.budgetExceeded,
+    converter: job.converterUsed,
+    glossaryViolations: job.glossaryViolations,
+    qaFlags: job.qaFlags,
+    layoutIssues: job.layoutIssues,
     downloadable,
+    variants: downloadable ? Object.keys(job.variantPaths ?? {}) : [],
+    formats: downloadable
+      ? [documentTypeOf(job.fileName), ...(job.pdfOutputPath ? ["pdf"] : [])]
+      : [],
+    resumable: job.resumable,
+  };
+}
+
+/**
+ * GET /api/admin/jobs
+ * Every job of every tenant, newest first (admin API keys only)
+ * Query: tenant, status - optional filters
+ */
+app.get("/api/admin/jobs", requireAdmin, (req: Request, res: Response) => {
+  const tenant = req.query.tenant ? String(req.query.tenant) : undefined;
+  const status = req.query.status ? String(req.query.status) : undefined;
+
+  res.json(
+    getAllJobs()
+      .filter((job) => tenant === undefined || job.tenant === tenant)
+      .filter((job) => status === undefined || job.status === status)
+      .sort((a, b) => b.createdAt - a.createdAt)
+      .map((job) => ({ ...jobStatusBody(job), tenant: job.tenant, createdAt: job.createdAt }))
+  );
+});
+
+/**
+ * GET /api/status/:jobId
+ * Get the current status of a job
+ */
+app.get("/api/status/:jobId", (req: Request, res: Response) => {
+  const job = getOwnedJob(req, req.params.jobId);
+
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+
+  res.json(jobStatusBody(job));
+});
+
+// Statuses after which a job's event stream ends (review still changes)
+const STREAM_END_STATUSES = ["done", "error", "cancelled", "interrupted"];
+
+// Status events are coalesced; batch events are sent as they happen
+const STATUS_EVENT_INTERVAL_MS = 250;
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * GET /api/jobs/:id/events
+ * Server-Sent Events stream of a job:
+ *   status - the body of GET /api/status, sent on connect and whenever the job changes
+ *   batch - a translation batch was applied: segmentIds, doneSegments, totalSegments, usage
+ * The stream ends after the job is done, failed, cancelled or interrupted.
+ */
+app.get("/api/jobs/:id/events", (req: Request, res: Response) => {
+  const job = getOwnedJob(req, req.params.id);
+
+  if (!job) {
+    res.status(404).json({ error: "Job not found" });
+    return;
+  }
+
+  res.writeHead(200, {
+    "Content-Type": "text/event-stream",
+    "Cache-Control": "no-cache",
+    Connection: "keep-alive",
+    "X-Accel-Buffering": "no", // no proxy buffering (nginx)
   });
+
+  const send = (event: string, data: unknown) => {
+    res.write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`);
+  };
+
+  let statusTimer: NodeJS.Timeout | undefined;
+  let lastStatusAt = 0;
+  const sendStatus = () => {
+    statusTimer = undefined;
+    lastStatusAt = Date.now();
+    send("status", jobStatusBody(job));
+    if (STREAM_END_STATUSES.includes(job.status)) {
+      close();
+      res.end();
+    }
+  };
+
+  const unsubscribe = subscribeJob(job.id, (event: JobEvent) => {
+    if (event.type === "batch") {
+      send("batch", {
+        segmentIds: event.segmentIds,
+        doneSegments: job.doneSegments,
+        totalSegments: job.totalSegments,
+        usage: job.usage,
+      });
+    } else if (!statusTimer) {
+      const wait = Math.max(0, lastStatusAt + STATUS_EVENT_INTERVAL_MS - Date.now());
+      statusTimer = setTimeout(sendStatus, wait);
+    }
+  });
+  const heartbeat = setInterval(() => res.write(": heartbeat\n\n"), HEARTBEAT_INTERVAL_MS);
+
+  const close = () => {
+    unsubscribe();
+    clearInterval(heartbeat);
+    clearTimeout(statusTimer);
+  };
+  req.on("close", close);
+
+  sendStatus();
 });
 
 /**
@@ -255,52 +1235,130 @@ app.get("/api/status/:jobId", (req: Request, res: Response) => {
  * Cancel a running job
  */
 app.post("/api/stop/:jobId", (req: Request, res: Response) => {
-  const job = getJob(req.params.jobId);
+  const job = getOwnedJob(req, req.params.jobId);
 
   if (!job) {
     res.status(404).json({ error: "Job not found" });
     return;
   }
 
+  jobQueue.remove(req.params.jobId);
   cancelJob(req.params.jobId);
+  closeReview(req.params.jobId);
   res.json({ ok: true });
 });
 
 /**
  * GET /api/download/:jobId
- * Download the translated DOCX file
+ * Download the translated document (DOCX, PPTX or XLSX) or its PDF rendering
+ * Query: variant - translated (default), interleaved, table or comments
+ *        format - the document's own format (default) or pdf, for jobs uploaded with outputFormat=pdf
  */
 app.get("/api/download/:jobId", (req: Request, res: Response) => {
-  const job = getJob(req.params.jobId);
+  const job = getOwnedJob(req, req.params.jobId);
+  const variant = String(req.query.variant || "translated");
+
+  if (variant !== "translated" && !OUTPUT_VARIANTS.includes(variant as OutputVariant)) {
+    res.status(400).json({ error: `Unknown variant: ${variant}` });
+    return;
+  }
 
   if (!job || !job.outputPath || job.status !== "done") {
     res.status(404).json({ error: "File not available" });
     return;
   }
 
-  if (!fs.existsSync(job.outputPath)) {
+  const documentType = documentTypeOf(job.fileName);
+  const format = String(req.query.format || documentType);
+  if (format !== documentType && format !== "pdf") {
+    res.status(400).json({ error: `Unknown format: ${format}` });
+    return;
+  }
+  if (format === "pdf" && variant !== "translated") {
+    res.status(400).json({ error: "PDF output is only available for the translated document" });
+    return;
+  }
+
+  let filePath: string | undefined;
+  if (format === "pdf") {
+    filePath = job.pdfOutputPath;
+    if (!filePath) {
+      res.status(404).json({ error: "PDF was not generated for this job" });
+      return;
+    }
+  } else {
+    filePath =
+      variant === "translated" ? job.outputPath : job.variantPaths?.[variant as OutputVariant];
+    if (!filePath) {
+      res.status(404).json({ error: `Variant ${variant} was not generated for this job` });
+      return;
+    }
+  }
+
+  if (!fs.existsSync(filePath)) {
     res.status(404).json({ error: "Output file not found" });
     return;
   }
 
   const baseName = path.basename(job.fileName, path.extname(job.fileName));
-  const downloadName = `${baseName}-translated.docx`;
-
-  // Properly encode filename for Content-Disposition header (RFC 5987)
-  // filename: ASCII fallback (replace non-ASCII with underscore)
-  // filename*: UTF-8 encoded version for modern browsers
-  const asciiFallback = downloadName.replace(/[^\x00-\x7F]/g, "_");
-  const encodedName = encodeURIComponent(downloadName).replace(/'/g, "%27");
-  res.setHeader(
-    "Content-Disposition",
-    `attachment; filename="${asciiFallback}"; filename*=UTF-8''${encodedName}`
-  );
+  setAttachment(res, `${baseName}-${variant}.${format}`);
   res.setHeader(
     "Content-Type",
-    "application/vnd.openxmlformats-officedocument.wordprocessingml.document"
+    format === "pdf" ? "application/pdf" : CONTENT_TYPES[documentType]
   );
 
-  res.sendFile(job.outputPath);
+  res.sendFile(filePath);
+});
+
+/**
+ * GET /api/batches/:id/download
+ * ZIP of every output (translated documents, bilingual variants, PDFs) of the
+ * batch's finished jobs; jobs still queued, running, in review or failed are left out
+ */
+app.get("/api/batches/:id/download", async (req: Request, res: Response) => {
+  const batchJobs = getBatchJobs(req.params.id).filter((job) => canAccessJob(req, job));
+  if (batchJobs.length === 0) {
+    res.status(404).json({ error: "Batch not found" });
+    return;
+  }
+
+  const finished = batchJobs.filter((job) => job.status === "done" && job.outputPath);
+  if (finished.length === 0) {
+    res.status(404).json({ error: "No finished jobs in this batch" });
+    return;
+  }
+
+  try {
+    const zip = new JSZip();
+    const usedNames = new Set<string>();
+    const addFile = (filePath: string | undefined, name: string) => {
+      if (!filePath || !fs.existsSync(filePath)) return;
+      // Uploads with the same name get numbered entries
+      const ext = path.extname(name);
+      let entry = name;
+      for (let n = 2; usedNames.has(entry); n++) {
+        entry = `${path.basename(name, ext)} (${n})${ext}`;
+      }
+      usedNames.add(entry);
+      zip.file(entry, fs.readFileSync(filePath));
+    };
+
+    for (const job of finished) {
+      const baseName = path.basename(job.fileName, path.extname(job.fileName));
+      addFile(job.outputPath, `${baseName}-translated.${documentTypeOf(job.fileName)}`);
+      for (const [variant, variantPath] of Object.entries(job.variantPaths ?? {})) {
+        addFile(variantPath, `${baseName}-${variant}.docx`);
+      }
+      addFile(job.pdfOutputPath, `${baseName}-translated.pdf`);
+    }
+
+    const buffer = await zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+    setAttachment(res, `batch-${req.params.id}.zip`);
+    res.setHeader("Content-Type", "application/zip");
+    res.send(buffer);
+  } catch (error: any) {
+    res.status(500).json({ error: error.message });
+  }
 });
 
 // Error handling middleware
@@ -309,8 +1367,12 @@ app.use((err: any, req: Request, res: Response, next: any) => {
   res.status(500).json({ error: err.message || "Internal server error" });
 });
 
-// Start server
-app.listen(PORT, () => {
-  console.log(`Server running at http://localhost:${PORT}`);
-  console.log("Ready to accept file uploads for translation");
-});
+// Start server (tests import the app and listen on their own port)
+if (require.main === module) {
+  app.listen(PORT, () => {
+    console.log(`Server running at http://localhost:${PORT}`);
+    console.log("Ready to accept file uploads for translation");
+  });
+}
+
+export default app;
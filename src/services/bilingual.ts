@@ -0,0 +1,332 @@
+/**
+ * Bilingual output documents for cross-checking translations against the original
+ */
+
+import {
+  DocxSegment,
+  ParsedDocx,
+  cloneParsedDocx,
+  parseXmlPart,
+  writeDocx,
+  tagOf,
+  xmlElement as element,
+  setRunProperty,
+} from "./docx";
+
+export type OutputVariant =
+  | "interleaved" // each original paragraph followed by its translation
+  | "table" // two-column table: original left, translation right
+  | "comments"; // translated document with the original as Word comments
+
+export const OUTPUT_VARIANTS: OutputVariant[] = ["interleaved", "table", "comments"];
+
+export interface TranslationStyle {
+  color?: string; // hex RGB for translated paragraphs, e.g. "2E74B5"
+  italic: boolean;
+}
+
+export interface BilingualOptions {
+  style: TranslationStyle; // interleaved: formatting of the translated paragraphs
+  headers?: [string, string]; // table: column headings (source, target)
+}
+
+const COMMENTS_PART = "word/comments.xml";
+const COMMENTS_REL_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/comments";
+const COMMENTS_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.comments+xml";
+const W_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const COMMENT_AUTHOR = "word-trans";
+
+// Elements left out of copies of the original: duplicates would clash with the
+// translated paragraph (section breaks, bookmarks, comment and note anchors,
+// drawings and text boxes with their object ids)
+const COPY_EXCLUDED = [
+  "w:sectPr",
+  "w:bookmarkStart",
+  "w:bookmarkEnd",
+  "w:commentRangeStart",
+  "w:commentRangeEnd",
+  "w:commentReference",
+  "w:footnoteReference",
+  "w:endnoteReference",
+  "w:drawing",
+  "w:pict",
+  "w:object",
+  "mc:AlternateContent",
+];
+
+function textParagraph(text: string): any {
+  return element("w:p", [
+    element("w:r", [element("w:t", [{ "#text": text }], { "xml:space": "preserve" })]),
+  ]);
+}
+
+/**
+ * Remove excluded elements below a node (in place)
+ */
+function stripExcluded(node: any): void {
+  if (Array.isArray(node)) {
+    for (let i = node.length - 1; i >= 0; i--) {
+      const tag = tagOf(node[i]);
+      if (tag && COPY_EXCLUDED.includes(tag)) {
+        node.splice(i, 1);
+      } else {
+        stripExcluded(node[i]);
+      }
+    }
+    return;
+  }
+
+  const tag = tagOf(node);
+  if (tag && Array.isArray(node[tag])) {
+    stripExcluded(node[tag]);
+  }
+}
+
+/**
+ * Copy of an untranslated block that can sit next to its translation
+ */
+function copyOriginal(block: any): any {
+  const copy = structuredClone(block);
+  stripExcluded(copy);
+  return copy;
+}
+
+/**
+ * Apply the translation style to every run in a paragraph
+ */
+function applyStyle(node: any, style: TranslationStyle): void {
+  if (Array.isArray(node)) {
+    for (const item of node) applyStyle(item, style);
+    return;
+  }
+
+  const tag = tagOf(node);
+  if (!tag || !Array.isArray(node[tag])) return;
+
+  if (tag === "w:r") {
+    if (style.color) setRunProperty(node, element("w:color", [], { "w:val": style.color }));
+    if (style.italic) setRunProperty(node, element("w:i"));
+    return;
+  }
+
+  applyStyle(node[tag], style);
+}
+
+/**
+ * Drop list numbering from a paragraph so the translation does not count as a new item
+ */
+function removeNumbering(paragraph: any): void {
+  const pPr = paragraph["w:p"].find((item: any) => tagOf(item) === "w:pPr");
+  if (pPr) {
+    pPr["w:pPr"] = pPr["w:pPr"].filter((item: any) => tagOf(item) !== "w:numPr");
+  }
+}
+
+function translatedByParagraph(segments: DocxSegment[]): Map<any, DocxSegment> {
+  return new Map(
+    segments.filter((seg) => seg.translated !== undefined).map((seg) => [seg.paragraph, seg])
+  );
+}
+
+/**
+ * Insert a copy of the original before every translated paragraph
+ */
+function interleave(node: any, translated: Map<any, DocxSegment>, style: TranslationStyle): void {
+  if (Array.isArray(node)) {
+    const out: any[] = [];
+    for (const item of node) {
+      interleave(item, translated, style);
+      if (translated.has(item)) {
+        out.push(copyOriginal(item));
+        applyStyle(item, style);
+        removeNumbering(item);
+      }
+      out.push(item);
+    }
+    node.splice(0, node.length, ...out);
+    return;
+  }
+
+  const tag = tagOf(node);
+  if (tag && Array.isArray(node[tag])) {
+    interleave(node[tag], translated, style);
+  }
+}
+
+function tableCell(content: any[]): any {
+  // A cell must end with a paragraph
+  const children = [...content];
+  if (tagOf(children[children.length - 1]) !== "w:p") {
+    children.push(element("w:p"));
+  }
+  return element("w:tc", [
+    element("w:tcPr", [element("w:tcW", [], { "w:w": "2500", "w:type": "pct" })]),
+    ...children,
+  ]);
+}
+
+/**
+ * Replace the document body with a two-column table of original and translated blocks
+ */
+function buildBilingualTable(documentXml: any[], headers?: [string, string]): void {
+  const document = documentXml.find((node) => tagOf(node) === "w:document");
+  const body = document?.["w:document"].find((node: any) => tagOf(node) === "w:body");
+  if (!body) {
+    throw new Error("Invalid DOCX: w:body not found");
+  }
+
+  const children: any[] = body["w:body"];
+  const sectPr = children.filter((node) => tagOf(node) === "w:sectPr");
+  const blocks = children.filter((node) => ["w:p", "w:tbl", "w:sdt"].includes(tagOf(node) ?? ""));
+  const markers = children.filter(
+    (node) => !sectPr.includes(node) && !blocks.includes(node)
+  );
+
+  const border = { "w:val": "single", "w:sz": "4", "w:space": "0", "w:color": "auto" };
+  const rows: any[] = [];
+  if (headers) {
+    rows.push(
+      element("w:tr", [
+        element("w:trPr", [element("w:tblHeader")]),
+        tableCell([textParagraph(headers[0])]),
+        tableCell([textParagraph(headers[1])]),
+      ])
+    );
+  }
+  for (const block of blocks) {
+    // Copies go left; the original nodes stay in the segments and get translated on write
+    const original = copyOriginal(block);
+    if (tagOf(block) === "w:p") removeNumbering(block);
+    rows.push(element("w:tr", [tableCell([original]), tableCell([block])]));
+  }
+
+  const table = element("w:tbl", [
+    element("w:tblPr", [
+      element("w:tblW", [], { "w:w": "5000", "w:type": "pct" }),
+      element(
+        "w:tblBorders",
+        ["w:top", "w:left", "w:bottom", "w:right", "w:insideH", "w:insideV"].map((side) =>
+          element(side, [], border)
+        )
+      ),
+      element("w:tblLayout", [], { "w:type": "fixed" }),
+    ]),
+    element("w:tblGrid", [
+      element("w:gridCol", [], { "w:w": "4680" }),
+      element("w:gridCol", [], { "w:w": "4680" }),
+    ]),
+    ...rows,
+  ]);
+
+  body["w:body"] = [...markers, table, element("w:p"), ...sectPr];
+}
+
+/**
+ * Register a new comments part in the package relationships and content types
+ */
+async function registerCommentsPart(parsed: ParsedDocx): Promise<void> {
+  const relsPath = "word/_rels/document.xml.rels";
+  const rels = await parsed.zip.file(relsPath)?.async("string");
+  if (rels && !rels.includes(COMMENTS_REL_TYPE)) {
+    parsed.zip.file(
+      relsPath,
+      rels.replace(
+        "</Relationships>",
+        `<Relationship Id="rIdWordTransComments" Type="${COMMENTS_REL_TYPE}" Target="comments.xml"/></Relationships>`
+      )
+    );
+  }
+
+  const typesPath = "[Content_Types].xml";
+  const types = await parsed.zip.file(typesPath)?.async("string");
+  if (types && !types.includes('PartName="/word/comments.xml"')) {
+    parsed.zip.file(
+      typesPath,
+      types.replace(
+        "</Types>",
+        `<Override PartName="/word/comments.xml" ContentType="${COMMENTS_CONTENT_TYPE}"/></Types>`
+      )
+    );
+  }
+}
+
+/**
+ * Attach the original text of every translated body paragraph as a comment
+ */
+async function addOriginalComments(parsed: ParsedDocx): Promise<void> {
+  let part = parsed.parts.find((p) => p.path === COMMENTS_PART);
+  if (!part) {
+    const existing = await parsed.zip.file(COMMENTS_PART)?.async("string");
+    const source =
+      existing ??
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?><w:comments xmlns:w="${W_NAMESPACE}"></w:comments>`;
+    part = { path: COMMENTS_PART, type: "comment", xml: parseXmlPart(source), source };
+    parsed.parts.push(part);
+    if (!existing) {
+      await registerCommentsPart(parsed);
+    }
+  }
+
+  const root = part.xml.find((node: any) => tagOf(node) === "w:comments");
+  if (!root) {
+    throw new Error("Invalid DOCX: w:comments not found");
+  }
+  const comments: any[] = root["w:comments"];
+
+  // New ids continue after the document's own comments
+  let nextId =
+    comments.reduce((max, node) => Math.max(max, Number(node[":@"]?.["@_w:id"]) || 0), -1) + 1;
+  const date = new Date().toISOString().replace(/\.\d{3}Z$/, "Z");
+
+  for (const segment of parsed.segments) {
+    if (segment.part !== "word/document.xml" || segment.partType !== "body") continue;
+    if (segment.translated === undefined) continue;
+
+    const id = String(nextId++);
+    comments.push(
+      element("w:comment", [textParagraph(segment.text)], {
+        "w:id": id,
+        "w:author": COMMENT_AUTHOR,
+        "w:initials": "WT",
+        "w:date": date,
+      })
+    );
+
+    const paragraph: any[] = segment.paragraph["w:p"];
+    const start = tagOf(paragraph[0]) === "w:pPr" ? 1 : 0;
+    paragraph.splice(start, 0, element("w:commentRangeStart", [], { "w:id": id }));
+    paragraph.push(
+      element("w:commentRangeEnd", [], { "w:id": id }),
+      element("w:r", [element("w:commentReference", [], { "w:id": id })])
+    );
+  }
+}
+
+/**
+ * Write one bilingual output variant of a translated document.
+ * Works on a fresh copy, so the parsed original can produce any number of variants.
+ */
+export async function writeBilingualDocx(
+  parsed: ParsedDocx,
+  variant: OutputVariant,
+  outputPath: string,
+  options: BilingualOptions
+): Promise<void> {
+  const copy = await cloneParsedDocx(parsed);
+
+  if (variant === "interleaved") {
+    const translated = translatedByParagraph(copy.segments);
+    for (const part of copy.parts) {
+      interleave(part.xml, translated, options.style);
+    }
+  } else if (variant === "table") {
+    const document = copy.parts.find((part) => part.path === "word/document.xml")!;
+    buildBilingualTable(document.xml, options.headers);
+  } else {
+    await addOriginalComments(copy);
+  }
+
+  await writeDocx(copy, outputPath);
+}
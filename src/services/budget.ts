@@ -0,0 +1,123 @@
+/**
+ * Budget caps: cost and token ceilings per job and per API key per day,
+ * checked before translating and after every translation batch
+ */
+
+import { createHash } from "crypto";
+import { JobState, JobUsage } from "../jobs";
+import { getEngine, priceUsage } from "./engines";
+import { ANONYMOUS_KEY, Spend, dailySpend } from "./usage";
+
+export interface BudgetLimits {
+  maxCostUSD?: number;
+  maxTokens?: number; // prompt + completion + reasoning
+}
+
+/**
+ * The budget a job ran over: its own, or its API key's daily budget
+ */
+export type BudgetScope = "job" | "daily";
+
+/**
+ * Thrown when a job runs over its own or its API key's daily budget
+ */
+export class BudgetExceededError extends Error {
+  constructor(message: string, readonly scope: BudgetScope) {
+    super(message);
+    this.name = "BudgetExceededError";
+  }
+}
+
+/**
+ * A positive limit from the environment; unset or 0 means unlimited
+ */
+function limitFromEnv(name: string): number | undefined {
+  const value = parseFloat(process.env[name] || "0");
+  return value > 0 ? value : undefined;
+}
+
+/**
+ * Default ceilings of a single job (JOB_MAX_COST_USD, JOB_MAX_TOKENS)
+ */
+export function defaultJobBudget(): BudgetLimits {
+  return {
+    maxCostUSD: limitFromEnv("JOB_MAX_COST_USD"),
+    maxTokens: limitFromEnv("JOB_MAX_TOKENS"),
+  };
+}
+
+/**
+ * Ceilings of everything one API key spends per day
+ * (API_KEY_DAILY_MAX_COST_USD, API_KEY_DAILY_MAX_TOKENS); uploads without an
+ * API key share one anonymous budget
+ */
+export function dailyKeyBudget(): BudgetLimits {
+  return {
+    maxCostUSD: limitFromEnv("API_KEY_DAILY_MAX_COST_USD"),
+    maxTokens: limitFromEnv("API_KEY_DAILY_MAX_TOKENS"),
+  };
+}
+
+/**
+ * Identify an API key without storing the key itself
+ */
+export function apiKeyId(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex").slice(0, 16);
+}
+
+function totalTokens(usage: JobUsage): number {
+  return usage.prompt + usage.completion + usage.reasoning;
+}
+
+function jobCost(job: JobState): number {
+  return priceUsage(job.usage, getEngine(job.options.engine).price);
+}
+
+/**
+ * Describe the first limit a spend is over, if any
+ */
+function overLimit(
+  spent: Spend,
+  limits: BudgetLimits,
+  what: string
+): string | undefined {
+  if (limits.maxCostUSD !== undefined && spent.costUSD > limits.maxCostUSD) {
+    return `${what} cost US$${spent.costUSD.toFixed(4)} exceeds the budget of US$${limits.maxCostUSD}`;
+  }
+  if (limits.maxTokens !== undefined && spent.tokens > limits.maxTokens) {
+    return `${what} used ${spent.tokens} tokens, over the budget of ${limits.maxTokens}`;
+  }
+  return undefined;
+}
+
+/**
+ * Throw a BudgetExceededError when the job's API key is over its daily budget,
+ * spent from the usage ledger by when each call was made
+ */
+export function checkDailyBudget(job: JobState): void {
+  const dailyExceeded = overLimit(
+    dailySpend(job.apiKeyId ?? ANONYMOUS_KEY),
+    dailyKeyBudget(),
+    "API key daily"
+  );
+  if (dailyExceeded) throw new BudgetExceededError(dailyExceeded, "daily");
+}
+
+/**
+ * Throw a BudgetExceededError when a job is over its own budget or its API
+ * key's daily budget. An approved overrun lifts the job's own budget only.
+ */
+export function checkBudget(job: JobState): void {
+  if (!job.budgetApproved) {
+    // Jobs stored before budgets existed have none
+    const jobLimits = job.options.budget ?? {};
+    const jobExceeded = overLimit(
+      { tokens: totalTokens(job.usage), costUSD: jobCost(job) },
+      jobLimits,
+      "Job"
+    );
+    if (jobExceeded) throw new BudgetExceededError(jobExceeded, "job");
+  }
+
+  checkDailyBudget(job);
+}
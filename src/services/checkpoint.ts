@@ -0,0 +1,96 @@
+/**
+ * Segment-level translation checkpoints for resuming interrupted jobs
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { DocxSegment } from "./docx";
+
+interface CheckpointRecord {
+  id: number;
+  text: string; // source text, used to verify the segment on restore
+  translated: string;
+  markup?: string; // translation with inline formatting tags
+}
+
+let checkpointDir: string | null = null;
+
+function checkpointPath(jobId: string): string {
+  if (!checkpointDir) {
+    throw new Error("Checkpoint store not initialized");
+  }
+  return path.join(checkpointDir, `${jobId}.jsonl`);
+}
+
+/**
+ * Set the directory where checkpoint files are written
+ */
+export function initCheckpointStore(dir: string): void {
+  checkpointDir = dir;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+}
+
+/**
+ * Append translated segments to a job's checkpoint.
+ * The file is append-only JSON lines; later records for the same id win.
+ */
+export function appendCheckpoint(jobId: string, segments: DocxSegment[]): void {
+  const lines = segments
+    .filter((seg) => seg.translated !== undefined)
+    .map((seg) => {
+      const record: CheckpointRecord = { id: seg.id, text: seg.text, translated: seg.translated! };
+      if (seg.translatedMarkup !== undefined) {
+        record.markup = seg.translatedMarkup;
+      }
+      return JSON.stringify(record) + "\n";
+    });
+
+  if (lines.length > 0) {
+    fs.appendFileSync(checkpointPath(jobId), lines.join(""), "utf8");
+  }
+}
+
+/**
+ * Restore checkpointed translations onto freshly parsed segments.
+ * Segments are matched by id and only restored when the source text is unchanged.
+ * Returns the number of restored segments.
+ */
+export function restoreCheckpoint(jobId: string, segments: DocxSegment[]): number {
+  const file = checkpointPath(jobId);
+  if (!fs.existsSync(file)) return 0;
+
+  const records = new Map<number, CheckpointRecord>();
+  for (const line of fs.readFileSync(file, "utf8").split("\n")) {
+    if (!line.trim()) continue;
+    try {
+      const record = JSON.parse(line) as CheckpointRecord;
+      records.set(record.id, record);
+    } catch {
+      // A crash mid-append can leave a truncated last line
+    }
+  }
+
+  let restored = 0;
+  for (const seg of segments) {
+    const record = records.get(seg.id);
+    if (record && record.text === seg.text) {
+      seg.translated = record.translated;
+      seg.translatedMarkup = record.markup;
+      restored++;
+    }
+  }
+  return restored;
+}
+
+/**
+ * Remove a job's checkpoint once its output is written
+ */
+export function deleteCheckpoint(jobId: string): void {
+  try {
+    fs.unlinkSync(checkpointPath(jobId));
+  } catch (e) {
+    // Ignore missing file
+  }
+}
@@ -0,0 +1,111 @@
+/**
+ * Glossary compliance checker - verifies translated segments use mandatory terms
+ */
+
+import { DocxSegment } from "./docx";
+import { GlossaryEntry, findTermsInText, termPattern } from "./glossary";
+
+export type GlossaryViolationType = "missing-target" | "forbidden-variant";
+
+export interface GlossaryViolation {
+  segmentId: number;
+  type: GlossaryViolationType;
+  entryId: string;
+  source: string; // source term found in the segment
+  expected: string; // required target term
+  found?: string; // forbidden variant present in the translation
+}
+
+function containsTerm(text: string, term: string): boolean {
+  return text.toLowerCase().includes(term.toLowerCase());
+}
+
+/**
+ * Check one translated segment against the glossary.
+ * Required targets follow longest-match-first, but forbidden variants are
+ * checked for every term present, so "初級" is caught inside "primary winding".
+ * Required target terms are masked before looking for forbidden variants,
+ * so a variant that is part of a correct term is not reported.
+ */
+export function checkSegmentCompliance(
+  segment: DocxSegment,
+  entries: GlossaryEntry[]
+): GlossaryViolation[] {
+  if (!segment.translated) return [];
+
+  const matched = findTermsInText(entries, segment.text);
+  if (matched.length === 0) return [];
+  const present = entries.filter((e) => e.forbidden && termPattern(e.source).test(segment.text));
+
+  const translated = segment.translated;
+  let masked = translated;
+  for (const entry of [...matched, ...present]) {
+    masked = masked.split(entry.target).join("\u0000");
+  }
+
+  const violations: GlossaryViolation[] = [];
+  for (const entry of matched) {
+    if (!containsTerm(translated, entry.target)) {
+      violations.push({
+        segmentId: segment.id,
+        type: "missing-target",
+        entryId: entry.id,
+        source: entry.source,
+        expected: entry.target,
+      });
+    }
+  }
+
+  for (const entry of present) {
+    for (const variant of entry.forbidden ?? []) {
+      if (containsTerm(masked, variant)) {
+        violations.push({
+          segmentId: segment.id,
+          type: "forbidden-variant",
+          entryId: entry.id,
+          source: entry.source,
+          expected: entry.target,
+          found: variant,
+        });
+      }
+    }
+  }
+
+  return violations;
+}
+
+/**
+ * Check all translated segments against the glossary
+ */
+export function checkGlossaryCompliance(
+  segments: DocxSegment[],
+  entries: GlossaryEntry[]
+): GlossaryViolation[] {
+  if (entries.length === 0) return [];
+  return segments.flatMap((seg) => checkSegmentCompliance(seg, entries));
+}
+
+/**
+ * Build a correction instruction per violating segment for the repair pass
+ */
+export function buildCorrections(violations: GlossaryViolation[]): Map<number, string> {
+  // segment id -> entry id -> rule, merging missing/forbidden findings per term
+  const bySegment = new Map<number, Map<string, { source: string; expected: string; found: string[] }>>();
+  for (const v of violations) {
+    const rules = bySegment.get(v.segmentId) ?? new Map();
+    const rule = rules.get(v.entryId) ?? { source: v.source, expected: v.expected, found: [] };
+    if (v.found && !rule.found.includes(v.found)) rule.found.push(v.found);
+    rules.set(v.entryId, rule);
+    bySegment.set(v.segmentId, rules);
+  }
+
+  const corrections = new Map<number, string>();
+  for (const [segmentId, rules] of bySegment) {
+    const text = Array.from(rules.values()).map((r) => {
+      const never = r.found.length > 0 ? `, never as ${r.found.map((f) => `"${f}"`).join(" or ")}` : "";
+      return `"${r.source}" must be translated as "${r.expected}"${never}`;
+    });
+    corrections.set(segmentId, text.join("; "));
+  }
+  return corrections;
+}
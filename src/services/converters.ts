@@ -0,0 +1,307 @@
+/**
+ * PDF to DOCX converters: Adobe PDF Services in the cloud, or local conversion
+ * for documents that must not leave the server. Also renders translated
+ * documents back to PDF with LibreOffice.
+ */
+
+import { execFile } from "child_process";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+import JSZip from "jszip";
+
+import { convertPdfToDocx } from "./adobe";
+import { extractPdfParagraphs } from "./pdfText";
+import { parseXmlPart, buildXmlPart, tagOf, xmlElement } from "./docx";
+
+export type ConverterName =
+  | "adobe" // Adobe PDF Services (uploads the document; needs PDF_SERVICES_* credentials)
+  | "libreoffice" // LibreOffice headless on this machine (LIBREOFFICE_PATH)
+  | "text"; // built-in text extraction: plain paragraphs, no layout
+
+export const CONVERTER_NAMES: ConverterName[] = ["adobe", "libreoffice", "text"];
+
+export type OutputFormat =
+  | "docx" // the translated document only (DOCX, PPTX or XLSX like the upload)
+  | "pdf"; // the document plus a PDF rendering of it (needs LibreOffice)
+
+export const OUTPUT_FORMATS: OutputFormat[] = ["docx", "pdf"];
+
+export interface PdfConverter {
+  readonly name: ConverterName;
+  available(): boolean; // configured and usable on this machine
+  convert(inputPath: string, outputPath: string): Promise<void>;
+}
+
+const W_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+
+class AdobeConverter implements PdfConverter {
+  readonly name = "adobe";
+
+  available(): boolean {
+    return !!process.env.PDF_SERVICES_CLIENT_ID && !!process.env.PDF_SERVICES_CLIENT_SECRET;
+  }
+
+  convert(inputPath: string, outputPath: string): Promise<void> {
+    return convertPdfToDocx(inputPath, outputPath);
+  }
+}
+
+function libreOfficeBinary(): string {
+  return process.env.LIBREOFFICE_PATH || "soffice";
+}
+
+function libreOfficeAvailable(): boolean {
+  const binary = libreOfficeBinary();
+  if (path.isAbsolute(binary)) return fs.existsSync(binary);
+  return (process.env.PATH || "")
+    .split(path.delimiter)
+    .some((dir) => dir && fs.existsSync(path.join(dir, binary)));
+}
+
+/**
+ * Convert a file with LibreOffice headless and copy the result to outputPath
+ */
+async function runLibreOffice(
+  inputPath: string,
+  outputPath: string,
+  convertTo: string,
+  extraArgs: string[] = []
+): Promise<void> {
+  // LibreOffice names the result after the input; convert into a scratch directory.
+  // A private profile lets conversions run while another LibreOffice instance is open.
+  const outDir = fs.mkdtempSync(path.join(os.tmpdir(), "word-trans-lo-"));
+  try {
+    await new Promise<void>((resolve, reject) => {
+      execFile(
+        libreOfficeBinary(),
+        [
+          `-env:UserInstallation=file://${path.join(outDir, "profile")}`,
+          "--headless",
+          ...extraArgs,
+          "--convert-to",
+          convertTo,
+          "--outdir",
+          outDir,
+          inputPath,
+        ],
+        { timeout: parseInt(process.env.PDF_CONVERT_TIMEOUT_MS || "300000") },
+        (error, stdout, stderr) => {
+          if (error) {
+            reject(new Error(`LibreOffice conversion failed: ${stderr || error.message}`));
+          } else {
+            resolve();
+          }
+        }
+      );
+    });
+
+    const extension = convertTo.split(":")[0];
+    const result = path.join(outDir, `${path.basename(inputPath, path.extname(inputPath))}.${extension}`);
+    if (!fs.existsSync(result)) {
+      throw new Error(`LibreOffice conversion produced no ${extension.toUpperCase()}`);
+    }
+    fs.copyFileSync(result, outputPath);
+  } finally {
+    fs.rmSync(outDir, { recursive: true, force: true });
+  }
+}
+
+class LibreOfficeConverter implements PdfConverter {
+  readonly name = "libreoffice";
+
+  available(): boolean {
+    return libreOfficeAvailable();
+  }
+
+  async convert(inputPath: string, outputPath: string): Promise<void> {
+    await runLibreOffice(inputPath, outputPath, "docx:MS Word 2007 XML", [
+      "--infilter=writer_pdf_import",
+    ]);
+    console.log(`PDF converted to DOCX with LibreOffice: ${outputPath}`);
+  }
+}
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+class TextConverter implements PdfConverter {
+  readonly name = "text";
+
+  available(): boolean {
+    return true;
+  }
+
+  async convert(inputPath: string, outputPath: string): Promise<void> {
+    const paragraphs = extractPdfParagraphs(fs.readFileSync(inputPath));
+    if (paragraphs.length === 0) {
+      throw new Error(
+        "No extractable text in PDF (scanned or unsupported font encoding); use the adobe or libreoffice converter"
+      );
+    }
+
+    const body = paragraphs
+      .map((text) => `<w:p><w:r><w:t xml:space="preserve">${escapeXml(text)}</w:t></w:r></w:p>`)
+      .join("");
+
+    const zip = new JSZip();
+    zip.file(
+      "[Content_Types].xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/></Types>`
+    );
+    zip.file(
+      "_rels/.rels",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/></Relationships>`
+    );
+    zip.file(
+      "word/document.xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NAMESPACE}"><w:body>${body}<w:sectPr/></w:body></w:document>`
+    );
+
+    fs.writeFileSync(outputPath, await zip.generateAsync({ type: "nodebuffer" }));
+    console.log(`PDF text extracted to DOCX: ${outputPath} (${paragraphs.length} paragraphs)`);
+  }
+}
+
+const converters: Record<ConverterName, PdfConverter> = {
+  adobe: new AdobeConverter(),
+  libreoffice: new LibreOfficeConverter(),
+  text: new TextConverter(),
+};
+
+/**
+ * The converter to use for a job.
+ * Adobe without credentials falls back to LibreOffice when installed, otherwise
+ * to text extraction. Local converters never fall back to the cloud.
+ */
+export function resolveConverter(
+  name: ConverterName = (process.env.PDF_CONVERTER as ConverterName) || "adobe"
+): PdfConverter {
+  const converter = converters[name];
+  if (!converter) {
+    throw new Error(`Unknown PDF converter: ${name}`);
+  }
+  if (name !== "adobe" || converter.available()) {
+    return converter;
+  }
+
+  const fallback = converters.libreoffice.available() ? converters.libreoffice : converters.text;
+  console.warn(`Adobe PDF Services credentials not set, converting with ${fallback.name}`);
+  return fallback;
+}
+
+const STYLES_CONTENT_TYPE =
+  "application/vnd.openxmlformats-officedocument.wordprocessingml.styles+xml";
+const STYLES_RELATIONSHIP =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/styles";
+
+/**
+ * Find or create the child element `tag` of an element's children
+ */
+function childElement(children: any[], tag: string, first = false): any[] {
+  let node = children.find((child) => tagOf(child) === tag);
+  if (!node) {
+    node = xmlElement(tag, []);
+    if (first) children.unshift(node);
+    else children.push(node);
+  }
+  return node[tag];
+}
+
+/**
+ * Make the document's default East Asian font `font`, so the PDF renderer
+ * uses an installed CJK font instead of substituting one without the glyphs
+ */
+export async function setEastAsiaFont(zip: JSZip, font: string): Promise<void> {
+  let styles = await zip.file("word/styles.xml")?.async("string");
+
+  if (styles === undefined) {
+    styles = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="${W_NAMESPACE}"></w:styles>`;
+
+    const types = (await zip.file("[Content_Types].xml")?.async("string")) ?? "";
+    if (!types.includes('PartName="/word/styles.xml"')) {
+      zip.file(
+        "[Content_Types].xml",
+        types.replace(
+          "</Types>",
+          `<Override PartName="/word/styles.xml" ContentType="${STYLES_CONTENT_TYPE}"/></Types>`
+        )
+      );
+    }
+    const relsPath = "word/_rels/document.xml.rels";
+    const rels =
+      (await zip.file(relsPath)?.async("string")) ??
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+    zip.file(
+      relsPath,
+      rels.replace(
+        "</Relationships>",
+        `<Relationship Id="rIdWordTransStyles" Type="${STYLES_RELATIONSHIP}" Target="styles.xml"/></Relationships>`
+      )
+    );
+  }
+
+  const xml = parseXmlPart(styles);
+  const root = xml.find((node: any) => tagOf(node) === "w:styles");
+  if (!root) {
+    throw new Error("word/styles.xml has no w:styles element");
+  }
+
+  // w:docDefaults must be the first child of w:styles
+  const docDefaults = childElement(root["w:styles"], "w:docDefaults", true);
+  const rPrDefault = childElement(docDefaults, "w:rPrDefault", true);
+  const rPr = childElement(rPrDefault, "w:rPr");
+  const rFontsIndex = rPr.findIndex((child: any) => tagOf(child) === "w:rFonts");
+  const rFonts = rFontsIndex === -1 ? xmlElement("w:rFonts", []) : rPr[rFontsIndex];
+  if (rFontsIndex === -1) rPr.unshift(rFonts);
+
+  // A theme font would take precedence over the explicit one
+  const attributes = { ...(rFonts[":@"] || {}) };
+  delete attributes["@_w:eastAsiaTheme"];
+  attributes["@_w:eastAsia"] = font;
+  rFonts[":@"] = attributes;
+
+  zip.file("word/styles.xml", buildXmlPart(xml));
+}
+
+/**
+ * Whether translated documents can be rendered to PDF on this machine
+ */
+export function canRenderPdf(): boolean {
+  return libreOfficeAvailable();
+}
+
+/**
+ * Render a DOCX, PPTX or XLSX document to PDF with LibreOffice.
+ * For DOCX, eastAsiaFont replaces the document's default East Asian font first;
+ * it has to be installed on the server (e.g. Noto Sans CJK) for CJK text to render.
+ */
+export async function renderPdf(
+  documentPath: string,
+  pdfPath: string,
+  eastAsiaFont?: string
+): Promise<void> {
+  let inputPath = documentPath;
+  let tmpDir: string | undefined;
+
+  try {
+    if (eastAsiaFont && path.extname(documentPath).toLowerCase() === ".docx") {
+      tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), "word-trans-pdf-"));
+      const zip = await JSZip.loadAsync(fs.readFileSync(documentPath));
+      await setEastAsiaFont(zip, eastAsiaFont);
+      inputPath = path.join(tmpDir, path.basename(documentPath));
+      fs.writeFileSync(inputPath, await zip.generateAsync({ type: "nodebuffer" }));
+    }
+
+    await runLibreOffice(inputPath, pdfPath, "pdf");
+    console.log(`Rendered to PDF with LibreOffice: ${pdfPath}`);
+  } finally {
+    if (tmpDir) fs.rmSync(tmpDir, { recursive: true, force: true });
+  }
+}
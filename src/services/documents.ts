@@ -0,0 +1,66 @@
+/**
+ * Document formats the pipeline translates, and their parser/writer pairs
+ */
+
+import * as path from "path";
+
+import { ParsedDocx, ParseDocxOptions, parseDocx, writeDocx } from "./docx";
+import { parsePptx, writePptx } from "./pptx";
+import { parseXlsx, writeXlsx } from "./xlsx";
+
+export type DocumentType = "docx" | "pptx" | "xlsx";
+
+export const DOCUMENT_TYPES: DocumentType[] = ["docx", "pptx", "xlsx"];
+
+// Upload extensions; PDFs are converted to DOCX first
+export const UPLOAD_EXTENSIONS = [".pdf", ...DOCUMENT_TYPES.map((type) => `.${type}`)];
+
+export const CONTENT_TYPES: Record<DocumentType, string> = {
+  docx: "application/vnd.openxmlformats-officedocument.wordprocessingml.document",
+  pptx: "application/vnd.openxmlformats-officedocument.presentationml.presentation",
+  xlsx: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+};
+
+/**
+ * The format a file is translated in, by extension (PDF -> DOCX)
+ */
+export function documentTypeOf(fileName: string): DocumentType {
+  const type = path.extname(fileName).toLowerCase().slice(1);
+  return DOCUMENT_TYPES.includes(type as DocumentType) ? (type as DocumentType) : "docx";
+}
+
+/**
+ * Parse a document of the given format into segments
+ */
+export function parseDocument(
+  type: DocumentType,
+  filePath: string,
+  options?: ParseDocxOptions
+): Promise<ParsedDocx> {
+  switch (type) {
+    case "pptx":
+      return parsePptx(filePath, options);
+    case "xlsx":
+      return parseXlsx(filePath);
+    default:
+      return parseDocx(filePath, options);
+  }
+}
+
+/**
+ * Write a parsed document with its translations
+ */
+export function writeDocument(
+  type: DocumentType,
+  parsed: ParsedDocx,
+  outputPath: string
+): Promise<void> {
+  switch (type) {
+    case "pptx":
+      return writePptx(parsed, outputPath);
+    case "xlsx":
+      return writeXlsx(parsed, outputPath);
+    default:
+      return writeDocx(parsed, outputPath);
+  }
+}
@@ -1,5 +1,6 @@
 /**
- * DOCX parsing and writing using JSZip and fast-xml-parser
+ * DOCX parsing and writing using JSZip and fast-xml-parser.
+ * The paragraph/run handling is shared with the PPTX and XLSX modules.
  */
 
 import * as fs from "fs";
@@ -8,25 +9,116 @@ import JSZip from "jszip";
 import { XMLParser, XMLBuilder } from "fast-xml-parser";
 
 // Track text nodes and their parent run elements
-interface WtNodeInfo {
+export interface WtNodeInfo {
   textNode: any;
   runNode: any | null;
+  linkNode: any | null; // enclosing w:hyperlink, if any
+}
+
+// Consecutive runs of a paragraph that share the same formatting
+interface RunSpan {
+  nodes: WtNodeInfo[];
+  tag: number | null; // inline tag number, null for the paragraph's base formatting
+}
+
+// Where a segment's text lives; "textbox" segments can sit in any part
+export type DocxPartType =
+  | "body"
+  | "header"
+  | "footer"
+  | "footnote"
+  | "endnote"
+  | "comment"
+  | "textbox"
+  | "slide" // PPTX slide
+  | "notes" // PPTX speaker notes
+  | "cell"; // XLSX shared or inline string
+
+// Part types that can be switched off per job (body, slides and cells are always translated)
+export const OPTIONAL_PART_TYPES: DocxPartType[] = [
+  "header",
+  "footer",
+  "footnote",
+  "endnote",
+  "comment",
+  "textbox",
+  "notes",
+];
+
+// Element names of a markup dialect's runs and text (WordprocessingML, DrawingML, SpreadsheetML)
+export interface TextMarkup {
+  run: string; // e.g. "w:r"
+  text: string; // e.g. "w:t"
+  link?: string; // element wrapping runs of one hyperlink
+  skip: string[]; // elements whose text does not belong to the paragraph
+}
+
+const WORD_MARKUP: TextMarkup = {
+  run: "w:r",
+  text: "w:t",
+  link: "w:hyperlink",
+  // Text boxes are extracted as their own segments
+  skip: ["w:txbxContent"],
+};
+
+// Fixed-size box a paragraph is laid out in
+export interface LayoutContainer {
+  type: "cell" | "textbox" | "frame";
+  node: any; // w:tc, the w:drawing / VML shape holding the text box, or the framed w:p
+  row?: any; // w:tr of a cell
 }
 
 export interface DocxSegment {
   id: number;
   text: string;
   translated?: string;
+  part: string; // zip path of the XML part, e.g. "word/header1.xml"
+  partType: DocxPartType;
+  // Source text with <rN>...</rN> around differently formatted runs
+  // (only set when the paragraph mixes formatting)
+  markup?: string;
+  // Translation in the same inline-tag form, mapped back onto the runs when written
+  translatedMarkup?: string;
+  // The w:p node the text belongs to
+  paragraph: any;
+  container?: LayoutContainer;
   // Track the w:t nodes and their parent runs
   wtNodeInfos: WtNodeInfo[];
+  runSpans?: RunSpan[];
+  // Same paragraph in the mc:Fallback copy of a text box, written with this translation
+  fallback?: DocxSegment;
+}
+
+export interface DocxPart {
+  path: string;
+  type: DocxPartType;
+  xml: any;
+  source: string; // original XML, used to build further output variants
 }
 
 export interface ParsedDocx {
   zip: JSZip;
-  documentXml: any;
+  parts: DocxPart[];
   segments: DocxSegment[];
+  partTypes: DocxPartType[]; // optional part types that were extracted
+}
+
+export interface ParseDocxOptions {
+  // Optional part types to extract (default: all of OPTIONAL_PART_TYPES)
+  partTypes?: DocxPartType[];
 }
 
+const DOCUMENT_PART = "word/document.xml";
+
+// WordprocessingML parts besides the main document that hold translatable paragraphs
+const PART_PATTERNS: { pattern: RegExp; type: DocxPartType }[] = [
+  { pattern: /^word\/header\d*\.xml$/, type: "header" },
+  { pattern: /^word\/footer\d*\.xml$/, type: "footer" },
+  { pattern: /^word\/footnotes\.xml$/, type: "footnote" },
+  { pattern: /^word\/endnotes\.xml$/, type: "endnote" },
+  { pattern: /^word\/comments\.xml$/, type: "comment" },
+];
+
 // XML parser/builder options for preserving structure
 const parserOptions = {
   preserveOrder: true,
@@ -47,13 +139,82 @@ const builderOptions = {
   suppressBooleanAttributes: false,
 };
 
+// Run properties that do not change how text looks (language, proofing, spacing is cleared on write)
+const IGNORED_RUN_PROPERTIES = ["w:lang", "w:noProof", "w:spacing", "w:rtl", "w:cs"];
+
+// DrawingML run property attributes of the same kind
+const IGNORED_RUN_ATTRIBUTES = ["@_lang", "@_altLang", "@_dirty", "@_err", "@_noProof", "@_smtClean", "@_spc"];
+
+// Inline formatting tags of segment markup: <r1>...</r1>
+export const INLINE_TAG = /<(\/?)r(\d+)>/g;
+
+const keyBuilder = new XMLBuilder(builderOptions);
+
+// Schema order of run properties (w:rPr is a strict sequence)
+const RPR_ORDER = [
+  "w:rStyle", "w:rFonts", "w:b", "w:bCs", "w:i", "w:iCs", "w:caps", "w:smallCaps",
+  "w:strike", "w:dstrike", "w:outline", "w:shadow", "w:emboss", "w:imprint", "w:noProof",
+  "w:snapToGrid", "w:vanish", "w:webHidden", "w:color", "w:spacing", "w:w", "w:kern",
+  "w:position", "w:sz", "w:szCs", "w:highlight", "w:u", "w:effect", "w:bdr", "w:shd",
+  "w:fitText", "w:vertAlign", "w:rtl", "w:cs", "w:em", "w:lang", "w:eastAsianLayout",
+  "w:specVanish", "w:oMath",
+];
+
+/**
+ * Tag name of a preserveOrder node ({"w:p": [...], ":@": {...}})
+ */
+export function tagOf(node: any): string | undefined {
+  if (typeof node !== "object" || node === null) return undefined;
+  return Object.keys(node).find((key) => key !== ":@");
+}
+
+/**
+ * Build a preserveOrder element node
+ */
+export function xmlElement(tag: string, children: any[] = [], attributes?: Record<string, string>): any {
+  const node: any = { [tag]: children };
+  if (attributes) {
+    node[":@"] = Object.fromEntries(
+      Object.entries(attributes).map(([name, value]) => [`@_${name}`, value])
+    );
+  }
+  return node;
+}
+
+/**
+ * Set (or replace) a property in a run's w:rPr, creating w:rPr when missing
+ */
+export function setRunProperty(runNode: any, property: any): void {
+  const run: any[] = runNode["w:r"];
+  let rPrNode = run.find((item) => tagOf(item) === "w:rPr");
+  if (!rPrNode) {
+    rPrNode = xmlElement("w:rPr");
+    run.unshift(rPrNode);
+  }
+
+  const rPr: any[] = rPrNode["w:rPr"];
+  const tag = tagOf(property)!;
+  const existing = rPr.findIndex((item) => tagOf(item) === tag);
+  if (existing !== -1) rPr.splice(existing, 1);
+
+  const order = RPR_ORDER.indexOf(tag);
+  const before = rPr.findIndex((item) => RPR_ORDER.indexOf(tagOf(item) ?? "") > order);
+  rPr.splice(before === -1 ? rPr.length : before, 0, property);
+}
+
 /**
  * Collect all w:t text nodes and their parent w:r (run) nodes
  */
-function collectWtNodes(node: any, wtNodes: WtNodeInfo[], parentRun: any | null = null): void {
+function collectWtNodes(
+  node: any,
+  wtNodes: WtNodeInfo[],
+  markup: TextMarkup,
+  parentRun: any | null = null,
+  parentLink: any | null = null
+): void {
   if (Array.isArray(node)) {
     for (const item of node) {
-      collectWtNodes(item, wtNodes, parentRun);
+      collectWtNodes(item, wtNodes, markup, parentRun, parentLink);
     }
     return;
   }
@@ -62,20 +223,30 @@ function collectWtNodes(node: any, wtNodes: WtNodeInfo[], parentRun: any | null
     return;
   }
 
+  if (markup.skip.some((tag) => tag in node)) {
+    return;
+  }
+
   // Check if this is a w:r (run) node
-  if ("w:r" in node) {
+  if (markup.run in node) {
     // Recurse into run with this as the parent
-    collectWtNodes(node["w:r"], wtNodes, node);
+    collectWtNodes(node[markup.run], wtNodes, markup, node, parentLink);
+    return;
+  }
+
+  // Runs inside a hyperlink keep a reference to it
+  if (markup.link && markup.link in node) {
+    collectWtNodes(node[markup.link], wtNodes, markup, parentRun, node);
     return;
   }
 
   // Check if this is a w:t node
-  if ("w:t" in node) {
-    const wtContent = node["w:t"];
+  if (markup.text in node) {
+    const wtContent = node[markup.text];
     if (Array.isArray(wtContent)) {
       for (const item of wtContent) {
         if (typeof item === "object" && "#text" in item) {
-          wtNodes.push({ textNode: item, runNode: parentRun });
+          wtNodes.push({ textNode: item, runNode: parentRun, linkNode: parentLink });
         }
       }
     }
@@ -85,9 +256,322 @@ function collectWtNodes(node: any, wtNodes: WtNodeInfo[], parentRun: any | null
   // Recurse into child nodes
   for (const key of Object.keys(node)) {
     if (key !== ":@" && key !== "#text") {
-      collectWtNodes(node[key], wtNodes, parentRun);
+      collectWtNodes(node[key], wtNodes, markup, parentRun, parentLink);
+    }
+  }
+}
+
+/**
+ * Formatting key of a run: its visible run properties plus the hyperlink it belongs to
+ */
+function runFormatKey(info: WtNodeInfo, links: any[]): string {
+  let rPr = "";
+  const runTag = tagOf(info.runNode);
+  const runContent = runTag ? info.runNode[runTag] : undefined;
+  if (Array.isArray(runContent)) {
+    // w:rPr, a:rPr or rPr
+    const propsNode = runContent.find((item: any) => tagOf(item)?.endsWith("rPr"));
+    const props = propsNode?.[tagOf(propsNode)!];
+    if (Array.isArray(props)) {
+      const visible = props.filter(
+        (prop: any) => !IGNORED_RUN_PROPERTIES.some((name) => prop && name in prop)
+      );
+      const attributes = Object.entries(propsNode[":@"] ?? {}).filter(
+        ([name]) => !IGNORED_RUN_ATTRIBUTES.includes(name)
+      );
+      rPr = keyBuilder.build(visible) + (attributes.length > 0 ? JSON.stringify(attributes) : "");
+    }
+  }
+
+  let link = -1;
+  if (info.linkNode) {
+    link = links.indexOf(info.linkNode);
+    if (link === -1) {
+      links.push(info.linkNode);
+      link = links.length - 1;
+    }
+  }
+  return `${link}|${rPr}`;
+}
+
+function spanText(span: RunSpan): string {
+  return span.nodes.map((info) => String(info.textNode["#text"])).join("");
+}
+
+/**
+ * Group a paragraph's text nodes into spans of identical formatting.
+ * The formatting covering the most characters is the base and stays untagged;
+ * every other span gets an inline tag. Returns undefined when the paragraph
+ * has a single formatting (nothing to preserve).
+ */
+function buildRunSpans(infos: WtNodeInfo[]): RunSpan[] | undefined {
+  const links: any[] = [];
+  const groups: { key: string; nodes: WtNodeInfo[] }[] = [];
+
+  for (const info of infos) {
+    const text = String(info.textNode["#text"]);
+    const current = groups[groups.length - 1];
+    // Whitespace-only nodes never start a new span
+    if (current && /^\s*$/.test(text)) {
+      current.nodes.push(info);
+      continue;
+    }
+    const key = runFormatKey(info, links);
+    if (current && current.key === key) {
+      current.nodes.push(info);
+    } else {
+      groups.push({ key, nodes: [info] });
+    }
+  }
+
+  const charsByKey = new Map<string, number>();
+  for (const group of groups) {
+    const length = group.nodes.reduce((sum, info) => sum + String(info.textNode["#text"]).trim().length, 0);
+    charsByKey.set(group.key, (charsByKey.get(group.key) ?? 0) + length);
+  }
+  if (charsByKey.size < 2) return undefined;
+
+  const baseKey = Array.from(charsByKey.entries()).sort((a, b) => b[1] - a[1])[0][0];
+  let nextTag = 1;
+  return groups.map((group) => ({
+    nodes: group.nodes,
+    tag: group.key === baseKey ? null : nextTag++,
+  }));
+}
+
+/**
+ * Source text with inline tags around the non-base spans
+ */
+function buildMarkup(spans: RunSpan[]): string {
+  return spans
+    .map((span) => (span.tag === null ? spanText(span) : `<r${span.tag}>${spanText(span)}</r${span.tag}>`))
+    .join("");
+}
+
+/**
+ * Remove inline formatting tags from text
+ */
+export function stripInlineTags(text: string): string {
+  return text.replace(INLINE_TAG, "");
+}
+
+/**
+ * Split tagged text into pieces; null when tags are nested, unbalanced or unknown
+ */
+function parseInlineTags(
+  markup: string,
+  knownTags: Set<number>
+): { tag: number | null; text: string }[] | null {
+  const pieces: { tag: number | null; text: string }[] = [];
+  let open: number | null = null;
+  let last = 0;
+
+  for (const match of markup.matchAll(INLINE_TAG)) {
+    const tag = Number(match[2]);
+    const closing = match[1] === "/";
+    const text = markup.slice(last, match.index);
+    if (text) pieces.push({ tag: open, text });
+    last = match.index! + match[0].length;
+
+    if (!knownTags.has(tag)) return null;
+    if (!closing) {
+      if (open !== null) return null;
+      open = tag;
+    } else {
+      if (open !== tag) return null;
+      open = null;
     }
   }
+
+  if (open !== null) return null;
+  const rest = markup.slice(last);
+  if (rest) pieces.push({ tag: null, text: rest });
+  return pieces;
+}
+
+/**
+ * Map a tagged translation onto the segment's spans, returning the text for
+ * each span. Spans are filled strictly in document order so the translated
+ * word order is kept; untagged text goes to the nearest base-formatted span.
+ * Returns null when the tags cannot be mapped without reordering text.
+ */
+function mapInlineMarkup(segment: DocxSegment, markup: string): string[] | null {
+  const spans = segment.runSpans;
+  if (!spans) return null;
+
+  const spanByTag = new Map<number, number>();
+  spans.forEach((span, index) => {
+    if (span.tag !== null) spanByTag.set(span.tag, index);
+  });
+
+  const pieces = parseInlineTags(markup, new Set(spanByTag.keys()));
+  if (!pieces) return null;
+
+  const texts = spans.map(() => "");
+  let cursor = 0;
+
+  for (let i = 0; i < pieces.length; i++) {
+    const piece = pieces[i];
+    if (piece.tag !== null) {
+      const index = spanByTag.get(piece.tag)!;
+      if (index < cursor) return null;
+      cursor = index;
+      texts[index] += piece.text;
+      continue;
+    }
+
+    // Don't jump past the span of the next tagged piece
+    const nextTagged = pieces.slice(i + 1).find((p) => p.tag !== null);
+    const limit = nextTagged ? spanByTag.get(nextTagged.tag!)! : spans.length;
+    let target = cursor;
+    for (let j = cursor; j < limit; j++) {
+      if (spans[j].tag === null) {
+        target = j;
+        break;
+      }
+    }
+    cursor = target;
+    texts[target] += piece.text;
+  }
+
+  return texts;
+}
+
+/**
+ * Whether a tagged translation can be written back with run formatting
+ */
+export function canApplyInlineMarkup(segment: DocxSegment, markup: string): boolean {
+  return mapInlineMarkup(segment, markup) !== null;
+}
+
+interface ExtractContext {
+  part: string;
+  partType: DocxPartType;
+  includeTextBoxes: boolean;
+  counter: { id: number };
+  container?: LayoutContainer;
+  row?: any;
+}
+
+// Elements that carry a text box's size (DrawingML extent or VML style)
+const SHAPE_TAGS = ["w:drawing", "v:shape", "v:rect", "v:roundrect"];
+
+interface TextBox {
+  content: any; // w:txbxContent children
+  shape: any | null;
+  fallback?: any; // w:txbxContent children of the matching mc:Fallback copy
+}
+
+/**
+ * Collect w:txbxContent nodes below a node (not descending into found ones),
+ * together with the nearest shape element that sizes them.
+ * Word stores each text box twice in mc:AlternateContent (DrawingML in
+ * mc:Choice, VML in mc:Fallback); only the Choice copy is collected, with
+ * the Fallback copy attached so it can be written with the same translation.
+ */
+function collectTextBoxes(node: any, found: TextBox[], shape: any | null = null): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      collectTextBoxes(item, found, shape);
+    }
+    return;
+  }
+
+  if (typeof node !== "object" || node === null) {
+    return;
+  }
+
+  if ("w:txbxContent" in node) {
+    found.push({ content: node["w:txbxContent"], shape });
+    return;
+  }
+
+  if ("mc:AlternateContent" in node) {
+    const branches: any[] = node["mc:AlternateContent"];
+    const choice = branches.find((item) => tagOf(item) === "mc:Choice");
+    const fallback = branches.find((item) => tagOf(item) === "mc:Fallback");
+    const choiceBoxes: TextBox[] = [];
+    const fallbackBoxes: TextBox[] = [];
+    collectTextBoxes(choice?.["mc:Choice"] ?? [], choiceBoxes, shape);
+    collectTextBoxes(fallback?.["mc:Fallback"] ?? [], fallbackBoxes, shape);
+
+    // Without a Choice text box the Fallback is the only copy
+    if (choiceBoxes.length === 0) {
+      found.push(...fallbackBoxes);
+      return;
+    }
+    choiceBoxes.forEach((box, index) => {
+      const pair = choiceBoxes.length === fallbackBoxes.length ? fallbackBoxes[index] : undefined;
+      found.push(pair ? { ...box, fallback: pair.content } : box);
+    });
+    return;
+  }
+
+  const tag = tagOf(node);
+  const nearest = tag && SHAPE_TAGS.includes(tag) ? node : shape;
+  for (const key of Object.keys(node)) {
+    if (key !== ":@" && key !== "#text") {
+      collectTextBoxes(node[key], found, nearest);
+    }
+  }
+}
+
+/**
+ * Pair the segments of a text box with the paragraphs of its mc:Fallback
+ * copy; left unpaired when the copies differ
+ */
+function linkFallback(segments: DocxSegment[], fallback: any, ctx: ExtractContext): void {
+  const copies: DocxSegment[] = [];
+  extractSegmentsByParagraph(fallback, copies, { ...ctx, counter: { id: 0 } });
+  if (
+    copies.length !== segments.length ||
+    copies.some((copy, index) => copy.text !== segments[index].text)
+  ) {
+    return;
+  }
+  segments.forEach((segment, index) => {
+    segment.fallback = copies[index];
+  });
+}
+
+function hasFramePr(paragraph: any[]): boolean {
+  const pPr = paragraph.find((item) => tagOf(item) === "w:pPr");
+  return !!pPr && pPr["w:pPr"].some((item: any) => tagOf(item) === "w:framePr");
+}
+
+/**
+ * Segment for the text of one paragraph node, undefined when it has no text
+ */
+export function buildParagraphSegment(
+  node: any,
+  markup: TextMarkup,
+  ctx: { part: string; partType: DocxPartType; counter: { id: number } }
+): DocxSegment | undefined {
+  const wtNodeInfos: WtNodeInfo[] = [];
+  collectWtNodes(node[tagOf(node)!], wtNodeInfos, markup);
+  if (wtNodeInfos.length === 0) return undefined;
+
+  // Merge all text in this paragraph
+  const mergedText = wtNodeInfos.map((info) => String(info.textNode["#text"])).join("");
+  if (!mergedText.trim()) return undefined;
+
+  const segment: DocxSegment = {
+    id: ctx.counter.id++,
+    text: mergedText,
+    part: ctx.part,
+    partType: ctx.partType,
+    paragraph: node,
+    wtNodeInfos: wtNodeInfos,
+  };
+
+  // Literal tag-like text in the source would be ambiguous
+  const runSpans =
+    stripInlineTags(mergedText) === mergedText ? buildRunSpans(wtNodeInfos) : undefined;
+  if (runSpans) {
+    segment.runSpans = runSpans;
+    segment.markup = buildMarkup(runSpans);
+  }
+  return segment;
 }
 
 /**
@@ -96,11 +580,11 @@ function collectWtNodes(node: any, wtNodes: WtNodeInfo[], parentRun: any | null
 function extractSegmentsByParagraph(
   node: any,
   segments: DocxSegment[],
-  counter: { id: number }
+  ctx: ExtractContext
 ): void {
   if (Array.isArray(node)) {
     for (const item of node) {
-      extractSegmentsByParagraph(item, segments, counter);
+      extractSegmentsByParagraph(item, segments, ctx);
     }
     return;
   }
@@ -111,28 +595,49 @@ function extractSegmentsByParagraph(
 
   // Check if this is a w:p (paragraph) node
   if ("w:p" in node) {
-    const wtNodeInfos: WtNodeInfo[] = [];
-    collectWtNodes(node["w:p"], wtNodeInfos);
-
-    if (wtNodeInfos.length > 0) {
-      // Merge all text in this paragraph
-      const mergedText = wtNodeInfos.map((info) => String(info.textNode["#text"])).join("");
-
-      if (mergedText.trim()) {
-        segments.push({
-          id: counter.id++,
-          text: mergedText,
-          wtNodeInfos: wtNodeInfos,
-        });
+    const segment = buildParagraphSegment(node, WORD_MARKUP, ctx);
+    if (segment) {
+      const container: LayoutContainer | undefined = hasFramePr(node["w:p"])
+        ? { type: "frame", node }
+        : ctx.container;
+      if (container) {
+        segment.container = container;
+      }
+      segments.push(segment);
+    }
+
+    // Text boxes anchored in this paragraph become separate segments
+    if (ctx.includeTextBoxes) {
+      const textBoxes: TextBox[] = [];
+      collectTextBoxes(node["w:p"], textBoxes);
+      for (const { content, shape, fallback } of textBoxes) {
+        const boxCtx: ExtractContext = {
+          ...ctx,
+          partType: "textbox",
+          container: shape ? { type: "textbox", node: shape } : undefined,
+        };
+        const first = segments.length;
+        extractSegmentsByParagraph(content, segments, boxCtx);
+        if (fallback) {
+          linkFallback(segments.slice(first), fallback, boxCtx);
+        }
       }
     }
     return; // Don't recurse into paragraph children (already processed)
   }
 
+  // Table rows and cells set the layout container for the paragraphs inside
+  let inner = ctx;
+  if ("w:tr" in node) {
+    inner = { ...ctx, row: node };
+  } else if ("w:tc" in node) {
+    inner = { ...ctx, container: { type: "cell", node, row: ctx.row } };
+  }
+
   // Recurse into other nodes
   for (const key of Object.keys(node)) {
     if (key !== ":@" && key !== "#text") {
-      extractSegmentsByParagraph(node[key], segments, counter);
+      extractSegmentsByParagraph(node[key], segments, inner);
     }
   }
 }
@@ -162,25 +667,10 @@ function clearRunSpacing(runNode: any): void {
 }
 
 /**
- * Distribute translated text back to w:t nodes
- * Strategy: Put all text in first non-empty node, clear others,
- * and remove fixed spacing from runs to allow natural text flow
+ * Put text into a group of w:t nodes: all of it in the first non-empty node,
+ * other content nodes cleared, whitespace-only nodes kept
  */
-function distributeTranslation(segment: DocxSegment): void {
-  if (!segment.translated || segment.wtNodeInfos.length === 0) {
-    return;
-  }
-
-  const translated = segment.translated;
-  const infos = segment.wtNodeInfos;
-
-  // Clear spacing from all runs that will be modified
-  for (const info of infos) {
-    if (info.runNode) {
-      clearRunSpacing(info.runNode);
-    }
-  }
-
+function fillTextNodes(infos: WtNodeInfo[], translated: string): void {
   if (infos.length === 1) {
     // Simple case: single w:t node
     infos[0].textNode["#text"] = translated;
@@ -218,9 +708,50 @@ function distributeTranslation(segment: DocxSegment): void {
 }
 
 /**
- * Parse a DOCX file and extract text segments
+ * Distribute translated text back to w:t nodes
+ * Strategy: with a usable tagged translation, each formatting span gets its
+ * own part of the text; otherwise put all text in first non-empty node,
+ * clear others. Fixed spacing is removed from runs to allow natural text flow
  */
-export async function parseDocx(filePath: string): Promise<ParsedDocx> {
+function distributeTranslation(segment: DocxSegment): void {
+  if (!segment.translated || segment.wtNodeInfos.length === 0) {
+    return;
+  }
+
+  const infos = segment.wtNodeInfos;
+
+  // Clear spacing from all runs that will be modified
+  for (const info of infos) {
+    if (info.runNode) {
+      clearRunSpacing(info.runNode);
+    }
+  }
+
+  // The tagged form is only trusted while it still matches the final translation
+  const markup = segment.translatedMarkup;
+  const spanTexts =
+    markup && stripInlineTags(markup) === segment.translated
+      ? mapInlineMarkup(segment, markup)
+      : null;
+
+  if (spanTexts && segment.runSpans) {
+    segment.runSpans.forEach((span, index) => fillTextNodes(span.nodes, spanTexts[index]));
+    return;
+  }
+
+  fillTextNodes(infos, segment.translated);
+}
+
+/**
+ * Parse a DOCX file and extract text segments from the main document and,
+ * depending on options, headers, footers, footnotes, endnotes, comments and text boxes
+ */
+export async function parseDocx(
+  filePath: string,
+  options?: ParseDocxOptions
+): Promise<ParsedDocx> {
+  const partTypes = options?.partTypes ?? OPTIONAL_PART_TYPES;
+
   // Read the DOCX file
   const buffer = fs.readFileSync(filePath);
 
@@ -228,49 +759,126 @@ export async function parseDocx(filePath: string): Promise<ParsedDocx> {
   const zip = await JSZip.loadAsync(buffer);
 
   // Read word/document.xml
-  const documentXmlFile = zip.file("word/document.xml");
-  if (!documentXmlFile) {
+  if (!zip.file(DOCUMENT_PART)) {
     throw new Error("Invalid DOCX: word/document.xml not found");
   }
 
-  const documentXmlString = await documentXmlFile.async("string");
+  // Main document first, then the other text parts in a stable order
+  const partList: { path: string; type: DocxPartType }[] = [{ path: DOCUMENT_PART, type: "body" }];
+  const otherPaths = Object.keys(zip.files).sort();
+  for (const { pattern, type } of PART_PATTERNS) {
+    if (!partTypes.includes(type)) continue;
+    for (const partPath of otherPaths) {
+      if (pattern.test(partPath)) {
+        partList.push({ path: partPath, type });
+      }
+    }
+  }
 
-  // Parse XML
+  // Parse XML and extract text segments by paragraph
   const parser = new XMLParser(parserOptions);
-  const documentXml = parser.parse(documentXmlString);
-
-  // Extract text segments by paragraph
+  const parts: DocxPart[] = [];
   const segments: DocxSegment[] = [];
   const counter = { id: 0 };
-  extractSegmentsByParagraph(documentXml, segments, counter);
 
-  console.log(`Parsed DOCX: found ${segments.length} paragraph segments`);
+  for (const { path: partPath, type } of partList) {
+    const source = await zip.file(partPath)!.async("string");
+    const xml = parser.parse(source);
+    parts.push({ path: partPath, type, xml, source });
+    extractSegmentsByParagraph(xml, segments, {
+      part: partPath,
+      partType: type,
+      includeTextBoxes: partTypes.includes("textbox"),
+      counter,
+    });
+  }
+
+  console.log(
+    `Parsed DOCX: found ${segments.length} paragraph segments in ${parts.length} parts`
+  );
 
   return {
     zip,
-    documentXml,
+    parts,
     segments,
+    partTypes: [...partTypes],
   };
 }
 
 /**
- * Write translated segments back to DOCX
+ * Re-parse a document from its original XML, carrying over the translations.
+ * Output variants modify the copy without touching the parsed original.
  */
-export async function writeDocx(
+export async function cloneParsedDocx(parsed: ParsedDocx): Promise<ParsedDocx> {
+  const zip = new JSZip();
+  for (const file of Object.values(parsed.zip.files)) {
+    if (!file.dir) {
+      zip.file(file.name, await file.async("uint8array"));
+    }
+  }
+
+  const parser = new XMLParser(parserOptions);
+  const parts: DocxPart[] = [];
+  const segments: DocxSegment[] = [];
+  const counter = { id: 0 };
+
+  for (const part of parsed.parts) {
+    const xml = parser.parse(part.source);
+    parts.push({ ...part, xml });
+    extractSegmentsByParagraph(xml, segments, {
+      part: part.path,
+      partType: part.type,
+      includeTextBoxes: parsed.partTypes.includes("textbox"),
+      counter,
+    });
+  }
+
+  // Extraction is deterministic, so segments line up by id
+  for (const segment of segments) {
+    const original = parsed.segments[segment.id];
+    segment.translated = original?.translated;
+    segment.translatedMarkup = original?.translatedMarkup;
+  }
+
+  return { zip, parts, segments, partTypes: [...parsed.partTypes] };
+}
+
+/**
+ * Parse an XML string with the options used for DOCX parts
+ */
+export function parseXmlPart(source: string): any {
+  return new XMLParser(parserOptions).parse(source);
+}
+
+/**
+ * Serialize a part parsed with parseXmlPart
+ */
+export function buildXmlPart(xml: any): string {
+  return new XMLBuilder(builderOptions).build(xml);
+}
+
+/**
+ * Apply the translations to the parsed parts and write the package
+ * (DOCX, PPTX or XLSX: only the extracted parts are rebuilt)
+ */
+export async function writePackage(
   parsed: ParsedDocx,
   outputPath: string
 ): Promise<void> {
   // Apply translations to the original XML structure
   for (const segment of parsed.segments) {
     distributeTranslation(segment);
+    if (segment.fallback) {
+      segment.fallback.translated = segment.translated;
+      segment.fallback.translatedMarkup = segment.translatedMarkup;
+      distributeTranslation(segment.fallback);
+    }
   }
 
-  // Build XML string
-  const builder = new XMLBuilder(builderOptions);
-  const newXmlString = builder.build(parsed.documentXml);
-
-  // Update the zip with new document.xml
-  parsed.zip.file("word/document.xml", newXmlString);
+  // Build each XML part and update the zip
+  for (const part of parsed.parts) {
+    parsed.zip.file(part.path, buildXmlPart(part.xml));
+  }
 
   // Generate new DOCX buffer
   const outputBuffer = await parsed.zip.generateAsync({
@@ -287,5 +895,15 @@ export async function writeDocx(
 
   // Write to file
   fs.writeFileSync(outputPath, outputBuffer);
+}
+
+/**
+ * Write translated segments back to DOCX
+ */
+export async function writeDocx(
+  parsed: ParsedDocx,
+  outputPath: string
+): Promise<void> {
+  await writePackage(parsed, outputPath);
   console.log(`Wrote translated DOCX: ${outputPath}`);
 }
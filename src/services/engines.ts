@@ -0,0 +1,217 @@
+/**
+ * Translation engines: the model backends a batch prompt is sent to
+ */
+
+import OpenAI, { AzureOpenAI } from "openai";
+import { JobUsage } from "../jobs";
+import { Language } from "./languages";
+import { estimateTokens } from "./rateLimiter";
+
+export type EngineName =
+  | "azure" // Azure OpenAI deployment (AZURE_OPENAI_*)
+  | "openai" // any OpenAI-compatible endpoint, e.g. OpenAI, vLLM or Ollama (OPENAI_*)
+  | "mock"; // deterministic offline engine for tests
+
+export const ENGINE_NAMES: EngineName[] = ["azure", "openai", "mock"];
+
+export interface EngineRequest {
+  systemPrompt: string;
+  userContent: string; // JSON array of { index, text, ... } items
+  target: Language;
+}
+
+export interface EngineResponse {
+  content: string | null; // raw answer, expected to be a JSON object with "translations"
+  usage: JobUsage;
+}
+
+export interface PriceModel {
+  inputPerM: number; // USD per 1M prompt tokens
+  outputPerM: number; // USD per 1M completion (and reasoning) tokens
+}
+
+export interface TranslationEngine {
+  readonly name: EngineName;
+  readonly price: PriceModel;
+  readonly deployment: string; // model deployment or model name requests are sent to
+  translateBatch(request: EngineRequest, signal: AbortSignal): Promise<EngineResponse>;
+}
+
+/**
+ * Cost of a usage record under an engine's price model
+ */
+export function priceUsage(usage: JobUsage, price: PriceModel): number {
+  const inputCost = (usage.prompt / 1_000_000) * price.inputPerM;
+  const outputCost = ((usage.completion + usage.reasoning) / 1_000_000) * price.outputPerM;
+  return inputCost + outputCost;
+}
+
+/**
+ * Send a batch prompt through the chat completions API in JSON mode
+ */
+async function chatCompletion(
+  client: OpenAI,
+  model: string,
+  request: EngineRequest,
+  signal: AbortSignal
+): Promise<EngineResponse> {
+  const response = await client.chat.completions.create(
+    {
+      model,
+      messages: [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userContent },
+      ],
+      response_format: { type: "json_object" },
+    },
+    { signal }
+  );
+
+  const usage = response.usage;
+  return {
+    content: response.choices[0]?.message?.content ?? null,
+    usage: {
+      prompt: usage?.prompt_tokens || 0,
+      completion: usage?.completion_tokens || 0,
+      reasoning: (usage as any)?.reasoning_tokens || 0,
+    },
+  };
+}
+
+function requestTimeout(): number {
+  return parseInt(process.env.REQUEST_TIMEOUT_MS || "180000");
+}
+
+class AzureEngine implements TranslationEngine {
+  readonly name = "azure";
+  // GPT-5-mini Data Zone pricing by default
+  readonly price = {
+    inputPerM: parseFloat(process.env.AZURE_OPENAI_INPUT_PRICE_PER_1M || "0.28"),
+    outputPerM: parseFloat(process.env.AZURE_OPENAI_OUTPUT_PRICE_PER_1M || "2.20"),
+  };
+  readonly deployment = process.env.AZURE_OPENAI_DEPLOYMENT_NAME || "";
+  private client: AzureOpenAI | null = null;
+
+  private getClient(): AzureOpenAI {
+    if (!this.client) {
+      const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
+      const apiKey = process.env.AZURE_OPENAI_API_KEY;
+      const apiVersion = process.env.AZURE_OPENAI_API_VERSION || "2024-10-01-preview";
+
+      if (!endpoint || !apiKey) {
+        throw new Error("AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be set");
+      }
+
+      this.client = new AzureOpenAI({
+        endpoint,
+        apiKey,
+        apiVersion,
+        // Retries are handled per batch in runBatch
+        maxRetries: 0,
+        timeout: requestTimeout(),
+      });
+    }
+    return this.client;
+  }
+
+  translateBatch(request: EngineRequest, signal: AbortSignal): Promise<EngineResponse> {
+    if (!this.deployment) {
+      throw new Error("AZURE_OPENAI_DEPLOYMENT_NAME must be set");
+    }
+    return chatCompletion(this.getClient(), this.deployment, request, signal);
+  }
+}
+
+class OpenAICompatibleEngine implements TranslationEngine {
+  readonly name = "openai";
+  // Local servers cost nothing per token; set prices for hosted endpoints
+  readonly price = {
+    inputPerM: parseFloat(process.env.OPENAI_INPUT_PRICE_PER_1M || "0"),
+    outputPerM: parseFloat(process.env.OPENAI_OUTPUT_PRICE_PER_1M || "0"),
+  };
+  readonly deployment = process.env.OPENAI_MODEL || "";
+  private client: OpenAI | null = null;
+
+  private getClient(): OpenAI {
+    if (!this.client) {
+      this.client = new OpenAI({
+        baseURL: process.env.OPENAI_BASE_URL || "https://api.openai.com/v1",
+        // Local servers usually ignore the key, but the SDK requires one
+        apiKey: process.env.OPENAI_API_KEY || "none",
+        maxRetries: 0,
+        timeout: requestTimeout(),
+      });
+    }
+    return this.client;
+  }
+
+  translateBatch(request: EngineRequest, signal: AbortSignal): Promise<EngineResponse> {
+    if (!this.deployment) {
+      throw new Error("OPENAI_MODEL must be set");
+    }
+    return chatCompletion(this.getClient(), this.deployment, request, signal);
+  }
+}
+
+/**
+ * Offline engine: "translates" every item to "[<target code>] <text>".
+ * Inline tags pass through unchanged; usage is estimated from the prompt.
+ */
+class MockEngine implements TranslationEngine {
+  readonly name = "mock";
+  readonly price = { inputPerM: 0, outputPerM: 0 };
+  readonly deployment = "mock";
+
+  async translateBatch(request: EngineRequest, signal: AbortSignal): Promise<EngineResponse> {
+    if (signal.aborted) {
+      const error = new Error("Request aborted");
+      error.name = "AbortError";
+      throw error;
+    }
+
+    const items: { index: number; text: string }[] = JSON.parse(request.userContent);
+    const content = JSON.stringify({
+      translations: items.map((item) => ({
+        index: item.index,
+        translated: `[${request.target.code}] ${item.text}`,
+      })),
+    });
+
+    return {
+      content,
+      usage: {
+        prompt: estimateTokens(request.systemPrompt) + estimateTokens(request.userContent),
+        completion: estimateTokens(content),
+        reasoning: 0,
+      },
+    };
+  }
+}
+
+// Engines are created on first use so unused backends need no configuration
+const engines = new Map<EngineName, TranslationEngine>();
+
+/**
+ * Default engine from TRANSLATION_ENGINE (azure when unset)
+ */
+export function getDefaultEngineName(): EngineName {
+  const name = process.env.TRANSLATION_ENGINE || "azure";
+  if (!ENGINE_NAMES.includes(name as EngineName)) {
+    throw new Error(`Unknown TRANSLATION_ENGINE: ${name}`);
+  }
+  return name as EngineName;
+}
+
+/**
+ * Shared engine instance by name (default engine when omitted)
+ */
+export function getEngine(name: EngineName = getDefaultEngineName()): TranslationEngine {
+  let engine = engines.get(name);
+  if (!engine) {
+    if (name === "azure") engine = new AzureEngine();
+    else if (name === "openai") engine = new OpenAICompatibleEngine();
+    else engine = new MockEngine();
+    engines.set(name, engine);
+  }
+  return engine;
+}
@@ -0,0 +1,652 @@
+/**
+ * Glossary store - user-managed terminology injected into translation prompts
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { v4 as uuidv4 } from "uuid";
+import { XMLParser, XMLBuilder } from "fast-xml-parser";
+
+import { getLanguage } from "./languages";
+
+export interface GlossaryEntry {
+  id: string;
+  source: string;
+  target: string;
+  forbidden?: string[]; // target-language variants that must never be used
+  note?: string;
+}
+
+export interface Glossary {
+  id: string;
+  name: string;
+  project?: string;
+  tenant?: string; // owning tenant; shared with every tenant when absent
+  sourceLang: string;
+  targetLang: string;
+  entries: GlossaryEntry[];
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type GlossaryFormat = "csv" | "tbx";
+
+export const DEFAULT_GLOSSARY_ID = "default";
+
+// Terminology previously hard-coded in the translation system prompt
+const DEFAULT_ENTRIES: Omit<GlossaryEntry, "id">[] = [
+  // Parts / components
+  { source: "Bleeding resistor", target: "洩放電阻" },
+  { source: "Electrolytic capacitor", target: "電解電容" },
+  { source: "MOSFET", target: "電晶體" },
+  { source: "Current limit resistor", target: "限流電阻" },
+  { source: "Varistor", target: "突波吸收器" },
+  { source: "Primary wire", target: "一次側引線" },
+  { source: "Line chock", target: "電感" },
+  { source: "Line choke", target: "電感" },
+  { source: "Bobbin", target: "線架" },
+  { source: "Plug holder", target: "刃片插座塑膠材質" },
+  { source: "AC connector", target: "AC 連接器" },
+  // Circuit sides & windings
+  { source: "primary winding", target: "一次側繞線" },
+  { source: "primary circuit", target: "一次側電路" },
+  {
+    source: "primary",
+    target: "一次側",
+    forbidden: ["初級", "一次測"],
+    note: "alone, referring to primary side",
+  },
+  { source: "secondary", target: "二次側", forbidden: ["次級"] },
+  { source: "Sec.", target: "二次側", note: "abbreviation" },
+  { source: "winding", target: "繞線", note: "general" },
+  { source: "core", target: "鐵芯", note: "magnetic core" },
+  // Test conditions, environment, status
+  { source: "Unit shutdown immediately", target: "設備立即中斷" },
+  { source: "Unit shutdown", target: "設備中斷" },
+  { source: "Unit shutdownr", target: "設備中斷" },
+  { source: "Ambient", target: "室溫", note: "temperature, condition" },
+  { source: "Plastic enclosure outside near", target: "塑膠外殼內側靠近" },
+  { source: "For model", target: "適用型號" },
+  { source: "Optional", target: "可選" },
+];
+
+// In-memory cache of glossaries, persisted as one JSON file per glossary
+const glossaries = new Map<string, Glossary>();
+let storeDir: string | null = null;
+
+function glossaryPath(id: string): string {
+  if (!storeDir) {
+    throw new Error("Glossary store not initialized");
+  }
+  return path.join(storeDir, `${id}.json`);
+}
+
+function persist(glossary: Glossary): void {
+  fs.writeFileSync(glossaryPath(glossary.id), JSON.stringify(glossary, null, 2), "utf8");
+}
+
+function normalizeEntry(entry: Partial<GlossaryEntry>): GlossaryEntry {
+  const source = String(entry.source ?? "").trim();
+  const target = String(entry.target ?? "").trim();
+  if (!source || !target) {
+    throw new Error("Glossary entry requires both source and target");
+  }
+
+  if (entry.forbidden !== undefined && !Array.isArray(entry.forbidden)) {
+    throw new Error("Glossary entry forbidden must be a list of terms");
+  }
+  const forbidden = (entry.forbidden ?? [])
+    .map((f) => String(f).trim())
+    .filter((f) => f.length > 0);
+
+  return {
+    id: entry.id || uuidv4(),
+    source,
+    target,
+    ...(forbidden.length > 0 ? { forbidden } : {}),
+    ...(entry.note ? { note: String(entry.note).trim() } : {}),
+  };
+}
+
+/**
+ * Code of a supported language given as code or name
+ */
+function languageCode(value: unknown, field: string): string {
+  const language = typeof value === "string" ? getLanguage(value) : undefined;
+  if (!language) {
+    throw new Error(`Unsupported ${field}: ${value}`);
+  }
+  return language.code;
+}
+
+/**
+ * Load all glossaries from disk, seeding the default glossary on first run
+ */
+export function initGlossaryStore(dir: string): void {
+  storeDir = dir;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  glossaries.clear();
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(".json")) continue;
+    try {
+      const glossary = JSON.parse(fs.readFileSync(path.join(dir, file), "utf8")) as Glossary;
+      glossaries.set(glossary.id, glossary);
+    } catch (e) {
+      console.error(`Failed to load glossary ${file}:`, e);
+    }
+  }
+
+  if (!glossaries.has(DEFAULT_GLOSSARY_ID)) {
+    const now = Date.now();
+    const glossary: Glossary = {
+      id: DEFAULT_GLOSSARY_ID,
+      name: "CB / IEC 安規報告預設詞彙",
+      sourceLang: "en",
+      targetLang: "zh-TW",
+      entries: DEFAULT_ENTRIES.map((e) => normalizeEntry(e)),
+      createdAt: now,
+      updatedAt: now,
+    };
+    glossaries.set(glossary.id, glossary);
+    persist(glossary);
+  }
+
+  console.log(`Loaded ${glossaries.size} glossaries from ${dir}`);
+}
+
+/**
+ * List all glossaries, optionally filtered by project
+ */
+export function listGlossaries(project?: string): Glossary[] {
+  const all = Array.from(glossaries.values());
+  return project ? all.filter((g) => g.project === project) : all;
+}
+
+/**
+ * Get a glossary by ID
+ */
+export function getGlossary(id: string): Glossary | undefined {
+  return glossaries.get(id);
+}
+
+/**
+ * Create a new glossary, owned by a tenant or shared when tenant is undefined
+ */
+export function createGlossary(
+  data: {
+    name: string;
+    project?: string;
+    sourceLang?: string;
+    targetLang?: string;
+    entries?: Partial<GlossaryEntry>[];
+  },
+  tenant?: string
+): Glossary {
+  if (!data.name || !String(data.name).trim()) {
+    throw new Error("Glossary name is required");
+  }
+
+  const now = Date.now();
+  const glossary: Glossary = {
+    id: uuidv4(),
+    name: String(data.name).trim(),
+    ...(data.project ? { project: String(data.project) } : {}),
+    ...(tenant ? { tenant } : {}),
+    sourceLang: languageCode(data.sourceLang || "en", "sourceLang"),
+    targetLang: languageCode(data.targetLang || "zh-TW", "targetLang"),
+    entries: (data.entries ?? []).map((e) => normalizeEntry({ ...e, id: undefined })),
+    createdAt: now,
+    updatedAt: now,
+  };
+  glossaries.set(glossary.id, glossary);
+  persist(glossary);
+  return glossary;
+}
+
+/**
+ * Update glossary metadata (name, project, languages); throws for a blank
+ * name or an unsupported language
+ */
+export function updateGlossary(
+  id: string,
+  patch: Partial<Pick<Glossary, "name" | "project" | "sourceLang" | "targetLang">>
+): Glossary | undefined {
+  const glossary = glossaries.get(id);
+  if (!glossary) return undefined;
+
+  const name = patch.name !== undefined ? String(patch.name).trim() : glossary.name;
+  if (!name) {
+    throw new Error("Glossary name is required");
+  }
+  const sourceLang = patch.sourceLang
+    ? languageCode(patch.sourceLang, "sourceLang")
+    : glossary.sourceLang;
+  const targetLang = patch.targetLang
+    ? languageCode(patch.targetLang, "targetLang")
+    : glossary.targetLang;
+
+  glossary.name = name;
+  if (patch.project !== undefined) glossary.project = patch.project || undefined;
+  glossary.sourceLang = sourceLang;
+  glossary.targetLang = targetLang;
+  glossary.updatedAt = Date.now();
+  persist(glossary);
+  return glossary;
+}
+
+/**
+ * Delete a glossary
+ */
+export function deleteGlossary(id: string): boolean {
+  if (!glossaries.delete(id)) return false;
+  try {
+    fs.unlinkSync(glossaryPath(id));
+  } catch (e) {
+    // Ignore missing file
+  }
+  return true;
+}
+
+/**
+ * Add an entry to a glossary
+ */
+export function addEntry(id: string, entry: Partial<GlossaryEntry>): GlossaryEntry | undefined {
+  const glossary = glossaries.get(id);
+  if (!glossary) return undefined;
+
+  const normalized = normalizeEntry({ ...entry, id: undefined });
+  glossary.entries.push(normalized);
+  glossary.updatedAt = Date.now();
+  persist(glossary);
+  return normalized;
+}
+
+/**
+ * Update an existing glossary entry
+ */
+export function updateEntry(
+  id: string,
+  entryId: string,
+  patch: Partial<GlossaryEntry>
+): GlossaryEntry | undefined {
+  const glossary = glossaries.get(id);
+  if (!glossary) return undefined;
+
+  const index = glossary.entries.findIndex((e) => e.id === entryId);
+  if (index === -1) return undefined;
+
+  const updated = normalizeEntry({ ...glossary.entries[index], ...patch, id: entryId });
+  glossary.entries[index] = updated;
+  glossary.updatedAt = Date.now();
+  persist(glossary);
+  return updated;
+}
+
+/**
+ * Remove an entry from a glossary
+ */
+export function deleteEntry(id: string, entryId: string): boolean {
+  const glossary = glossaries.get(id);
+  if (!glossary) return false;
+
+  const before = glossary.entries.length;
+  glossary.entries = glossary.entries.filter((e) => e.id !== entryId);
+  if (glossary.entries.length === before) return false;
+
+  glossary.updatedAt = Date.now();
+  persist(glossary);
+  return true;
+}
+
+/**
+ * Merge or replace glossary entries from an import.
+ * Merge mode overwrites entries whose source matches case-insensitively.
+ */
+export function importEntries(
+  id: string,
+  entries: Partial<GlossaryEntry>[],
+  mode: "merge" | "replace" = "merge"
+): Glossary | undefined {
+  const glossary = glossaries.get(id);
+  if (!glossary) return undefined;
+
+  const incoming = entries.map((e) => normalizeEntry({ ...e, id: undefined }));
+
+  if (mode === "replace") {
+    glossary.entries = incoming;
+  } else {
+    for (const entry of incoming) {
+      const existing = glossary.entries.find(
+        (e) => e.source.toLowerCase() === entry.source.toLowerCase()
+      );
+      if (existing) {
+        Object.assign(existing, { ...entry, id: existing.id });
+      } else {
+        glossary.entries.push(entry);
+      }
+    }
+  }
+
+  glossary.updatedAt = Date.now();
+  persist(glossary);
+  return glossary;
+}
+
+/**
+ * Collect the entries of several glossaries, skipping unknown IDs.
+ * Later glossaries override earlier ones for the same source term.
+ */
+export function resolveGlossaryEntries(ids: string[]): GlossaryEntry[] {
+  const bySource = new Map<string, GlossaryEntry>();
+  for (const id of ids) {
+    const glossary = glossaries.get(id);
+    if (!glossary) continue;
+    for (const entry of glossary.entries) {
+      bySource.set(entry.source.toLowerCase(), entry);
+    }
+  }
+  return Array.from(bySource.values());
+}
+
+// ---------------------------------------------------------------------------
+// Matching
+// ---------------------------------------------------------------------------
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Build a case-insensitive regex matching a source term on word boundaries
+ */
+export function termPattern(source: string): RegExp {
+  return new RegExp(`(?<![A-Za-z0-9])${escapeRegExp(source)}(?![A-Za-z0-9])`, "gi");
+}
+
+/**
+ * Find glossary entries occurring in a text, longest match first.
+ * Matched spans are masked so a shorter term (e.g. "primary") only
+ * matches where it is not already part of a longer one ("primary winding").
+ */
+export function findTermsInText(entries: GlossaryEntry[], text: string): GlossaryEntry[] {
+  const sorted = [...entries].sort((a, b) => b.source.length - a.source.length);
+  let remaining = text;
+  const found: GlossaryEntry[] = [];
+
+  for (const entry of sorted) {
+    const pattern = termPattern(entry.source);
+    if (pattern.test(remaining)) {
+      found.push(entry);
+      remaining = remaining.replace(termPattern(entry.source), (m) => "\u0000".repeat(m.length));
+    }
+  }
+
+  return found;
+}
+
+/**
+ * Select the entries that occur in any of the given texts, longest first
+ */
+export function matchGlossary(entries: GlossaryEntry[], texts: string[]): GlossaryEntry[] {
+  const matched = new Set<GlossaryEntry>();
+  for (const text of texts) {
+    for (const entry of findTermsInText(entries, text)) {
+      matched.add(entry);
+    }
+  }
+  return Array.from(matched).sort((a, b) => b.source.length - a.source.length);
+}
+
+/**
+ * Render matched entries as the glossary section of the system prompt
+ */
+export function formatGlossaryForPrompt(entries: GlossaryEntry[]): string {
+  if (entries.length === 0) return "";
+
+  const lines = entries.map((e) => {
+    const note = e.note ? ` (${e.note})` : "";
+    return `- ${e.source}${note} → ${e.target}`;
+  });
+
+  const constraints = entries
+    .filter((e) => e.forbidden && e.forbidden.length > 0)
+    .map(
+      (e) =>
+        `- NEVER translate "${e.source}" as ${e.forbidden!.map((f) => `"${f}"`).join(" or ")}; always use **${e.target}**.`
+    );
+
+  let section = `### Terminology – MANDATORY glossary
+When these source terms or phrases appear, you MUST use EXACTLY the following translations.
+Always match the **longest phrase first**.
+
+${lines.join("\n")}`;
+
+  if (constraints.length > 0) {
+    section += `\n\nAdditional wording constraints:\n${constraints.join("\n")}`;
+  }
+
+  return section;
+}
+
+// ---------------------------------------------------------------------------
+// CSV import/export
+// ---------------------------------------------------------------------------
+
+const CSV_HEADER = ["source", "target", "forbidden", "note"];
+
+function csvEscape(value: string): string {
+  if (/[",\r\n]/.test(value)) {
+    return `"${value.replace(/"/g, '""')}"`;
+  }
+  return value;
+}
+
+/**
+ * Parse CSV text into rows (RFC 4180 quoting)
+ */
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let inQuotes = false;
+
+  const input = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < input.length; i++) {
+    const ch = input[i];
+    if (inQuotes) {
+      if (ch === '"') {
+        if (input[i + 1] === '"') {
+          field += '"';
+          i++;
+        } else {
+          inQuotes = false;
+        }
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      inQuotes = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && input[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+
+  if (field.length > 0 || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((f) => f.trim().length > 0));
+}
+
+/**
+ * Parse glossary entries from CSV (columns: source,target[,forbidden][,note]).
+ * Multiple forbidden variants are separated by "|".
+ */
+export function parseGlossaryCsv(text: string): Partial<GlossaryEntry>[] {
+  const rows = parseCsvRows(text);
+  if (rows.length === 0) return [];
+
+  let columns = CSV_HEADER;
+  const first = rows[0].map((f) => f.trim().toLowerCase());
+  if (first.includes("source") && first.includes("target")) {
+    columns = first;
+    rows.shift();
+  }
+
+  return rows.map((row) => {
+    const get = (name: string) => {
+      const index = columns.indexOf(name);
+      return index >= 0 ? (row[index] ?? "").trim() : "";
+    };
+    const forbidden = get("forbidden");
+    return {
+      source: get("source"),
+      target: get("target"),
+      forbidden: forbidden ? forbidden.split("|") : undefined,
+      note: get("note") || undefined,
+    };
+  });
+}
+
+/**
+ * Serialize glossary entries to CSV
+ */
+export function toGlossaryCsv(glossary: Glossary): string {
+  const lines = [CSV_HEADER.join(",")];
+  for (const e of glossary.entries) {
+    lines.push(
+      [e.source, e.target, (e.forbidden ?? []).join("|"), e.note ?? ""].map(csvEscape).join(",")
+    );
+  }
+  // BOM so Excel opens the file as UTF-8
+  return "\uFEFF" + lines.join("\r\n") + "\r\n";
+}
+
+// ---------------------------------------------------------------------------
+// TBX import/export (TBX-Basic subset)
+// ---------------------------------------------------------------------------
+
+const DEPRECATED_STATUS = "deprecatedTerm-admn-sts";
+
+function textOf(node: any): string {
+  if (node === undefined || node === null) return "";
+  if (typeof node === "object") return String(node["#text"] ?? "");
+  return String(node);
+}
+
+/**
+ * Parse glossary entries from a TBX document.
+ * The first language set is the source, the second the target; target terms
+ * marked deprecated via administrativeStatus become forbidden variants.
+ */
+export function parseGlossaryTbx(xml: string): Partial<GlossaryEntry>[] {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    parseTagValue: false,
+    isArray: (name) => ["termEntry", "langSet", "tig", "ntig", "termNote", "note"].includes(name),
+  });
+  const doc = parser.parse(xml);
+  const root = doc.martif ?? doc.tbx;
+  const termEntries: any[] = root?.text?.body?.termEntry ?? [];
+
+  const entries: Partial<GlossaryEntry>[] = [];
+  for (const termEntry of termEntries) {
+    const langSets: any[] = termEntry.langSet ?? [];
+    if (langSets.length < 2) continue;
+
+    const termsOf = (langSet: any) =>
+      [...(langSet.tig ?? []), ...(langSet.ntig ?? []).map((n: any) => n.termGrp ?? n)].map(
+        (tig: any) => ({
+          term: textOf(tig.term).trim(),
+          deprecated: (tig.termNote ?? []).some(
+            (n: any) =>
+              n["@_type"] === "administrativeStatus" && textOf(n).trim() === DEPRECATED_STATUS
+          ),
+        })
+      );
+
+    const sourceTerms = termsOf(langSets[0]).filter((t) => !t.deprecated);
+    const targetTerms = termsOf(langSets[1]);
+    const preferred = targetTerms.find((t) => !t.deprecated);
+    if (sourceTerms.length === 0 || !preferred) continue;
+
+    const forbidden = targetTerms.filter((t) => t.deprecated).map((t) => t.term);
+    const note = textOf((termEntry.note ?? [])[0]).trim();
+
+    for (const source of sourceTerms) {
+      entries.push({
+        source: source.term,
+        target: preferred.term,
+        forbidden: forbidden.length > 0 ? forbidden : undefined,
+        note: note || undefined,
+      });
+    }
+  }
+
+  return entries;
+}
+
+/**
+ * Serialize a glossary as a TBX-Basic document
+ */
+export function toGlossaryTbx(glossary: Glossary): string {
+  const termEntry = glossary.entries.map((e) => ({
+    "@_id": e.id,
+    ...(e.note ? { note: [e.note] } : {}),
+    langSet: [
+      { "@_xml:lang": glossary.sourceLang, tig: [{ term: e.source }] },
+      {
+        "@_xml:lang": glossary.targetLang,
+        tig: [
+          { term: e.target },
+          ...(e.forbidden ?? []).map((f) => ({
+            term: f,
+            termNote: [{ "@_type": "administrativeStatus", "#text": DEPRECATED_STATUS }],
+          })),
+        ],
+      },
+    ],
+  }));
+
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    format: true,
+  });
+
+  const body = builder.build({
+    martif: {
+      "@_type": "TBX-Basic",
+      "@_xml:lang": glossary.sourceLang,
+      martifHeader: {
+        fileDesc: { sourceDesc: { p: glossary.name } },
+      },
+      text: { body: { termEntry } },
+    },
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+}
+
+/**
+ * Parse an uploaded glossary file in the given format
+ */
+export function parseGlossaryFile(content: string, format: GlossaryFormat): Partial<GlossaryEntry>[] {
+  return format === "tbx" ? parseGlossaryTbx(content) : parseGlossaryCsv(content);
+}
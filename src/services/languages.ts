@@ -0,0 +1,87 @@
+/**
+ * Supported source/target languages and their scripts
+ */
+
+export type Script = "latin" | "han" | "japanese";
+
+export interface Language {
+  code: string; // BCP 47 code used by the API, e.g. "zh-TW"
+  name: string; // English name used in prompts
+  promptName: string; // fuller name for the prompt direction line
+  label: string; // display label for the frontend
+  script: Script;
+  pdfFont?: string; // East Asian font for PDF output (PDF_CJK_FONT overrides)
+  // Characters that indicate text is written in this language
+  pattern: RegExp;
+}
+
+const LATIN = /[A-Za-z\u00c0-\u024f]/g;
+const HAN = /[\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+const JAPANESE = /[\u3040-\u30ff\u31f0-\u31ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff]/g;
+
+export const LANGUAGES: Language[] = [
+  {
+    code: "en",
+    name: "English",
+    promptName: "English",
+    label: "英文",
+    script: "latin",
+    pattern: LATIN,
+  },
+  {
+    code: "zh-TW",
+    name: "Traditional Chinese",
+    promptName: "Traditional Chinese (Taiwan)",
+    label: "繁體中文",
+    script: "han",
+    pdfFont: "Noto Sans CJK TC",
+    pattern: HAN,
+  },
+  {
+    code: "zh-CN",
+    name: "Simplified Chinese",
+    promptName: "Simplified Chinese (Mainland China)",
+    label: "簡體中文",
+    script: "han",
+    pdfFont: "Noto Sans CJK SC",
+    pattern: HAN,
+  },
+  {
+    code: "ja",
+    name: "Japanese",
+    promptName: "Japanese",
+    label: "日文",
+    script: "japanese",
+    pdfFont: "Noto Sans CJK JP",
+    pattern: JAPANESE,
+  },
+];
+
+export const DEFAULT_SOURCE_LANG = "en";
+export const DEFAULT_TARGET_LANG = "zh-TW";
+
+/**
+ * Look up a language by code or English name (case-insensitive)
+ */
+export function getLanguage(codeOrName: string): Language | undefined {
+  const key = codeOrName.trim().toLowerCase();
+  return LANGUAGES.find((l) => l.code.toLowerCase() === key || l.name.toLowerCase() === key);
+}
+
+/**
+ * Look up a language, throwing for unsupported values
+ */
+export function requireLanguage(codeOrName: string): Language {
+  const lang = getLanguage(codeOrName);
+  if (!lang) {
+    throw new Error(`Unsupported language: ${codeOrName}`);
+  }
+  return lang;
+}
+
+/**
+ * Count characters of a language's script in a text
+ */
+export function countScriptChars(text: string, lang: Language): number {
+  return (text.match(lang.pattern) || []).length;
+}
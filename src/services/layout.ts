@@ -0,0 +1,326 @@
+/**
+ * Layout checks for translated text in table cells, text boxes and frames
+ */
+
+import {
+  DocxSegment,
+  LayoutContainer,
+  ParsedDocx,
+  parseXmlPart,
+  setRunProperty,
+  tagOf,
+  xmlElement,
+} from "./docx";
+
+export type LayoutMode =
+  | "off" // no checks
+  | "flag" // report overflowing containers only
+  | "shrink" // reduce the font size of overflowing containers
+  | "autofit"; // let fixed-height rows, frames and text boxes grow
+
+export const LAYOUT_MODES: LayoutMode[] = ["off", "flag", "shrink", "autofit"];
+
+export interface LayoutIssue {
+  segmentIds: number[];
+  part: string;
+  container: LayoutContainer["type"];
+  widthPt: number; // usable text width
+  requiredHeightPt: number; // estimated height of the translated text
+  availableHeightPt: number; // fixed height, or what the original text needed
+  action: "flagged" | "shrunk" | "autofit";
+  fontScale?: number; // applied when shrunk
+  fits: boolean; // whether the text fits after the action
+}
+
+interface Geometry {
+  widthPt: number;
+  heightPt?: number; // only for containers that cannot grow
+}
+
+// Word's default cell margins (0.08") and text box insets (0.1" / 0.05")
+const CELL_MARGIN_PT = 5.4;
+const BOX_INSET_X_EMU = 91440;
+const BOX_INSET_Y_EMU = 45720;
+const EMU_PER_PT = 12700;
+const LINE_HEIGHT = 1.2; // single line spacing relative to the font size
+const MIN_FONT_HALF_POINTS = 12; // never shrink below 6pt
+
+const FULL_WIDTH = /[\u1100-\u11ff\u2e80-\ua4cf\uac00-\ud7a3\uf900-\ufaff\ufe30-\ufe4f\uff00-\uff60\uffe0-\uffe6]/;
+
+function attr(node: any, name: string): string | undefined {
+  return node?.[":@"]?.[`@_${name}`];
+}
+
+/**
+ * First descendant element with the given tag
+ */
+function findFirst(node: any, tag: string): any | undefined {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      const found = findFirst(item, tag);
+      if (found) return found;
+    }
+    return undefined;
+  }
+
+  const own = tagOf(node);
+  if (!own) return undefined;
+  if (own === tag) return node;
+  return Array.isArray(node[own]) ? findFirst(node[own], tag) : undefined;
+}
+
+function child(node: any, tag: string): any | undefined {
+  const own = tagOf(node);
+  return own && Array.isArray(node[own]) ? node[own].find((item: any) => tagOf(item) === tag) : undefined;
+}
+
+/**
+ * Convert a VML length (e.g. "72pt", "1in", "96px") to points
+ */
+function vmlLength(value: string | undefined): number | undefined {
+  const match = value?.trim().match(/^(-?[\d.]+)(pt|in|px|cm|mm)?$/);
+  if (!match) return undefined;
+  const number = parseFloat(match[1]);
+  const factor = { pt: 1, in: 72, px: 0.75, cm: 72 / 2.54, mm: 72 / 25.4 }[match[2] ?? "px"]!;
+  return number * factor;
+}
+
+function vmlStyle(node: any): Map<string, string> {
+  const style = new Map<string, string>();
+  for (const declaration of (attr(node, "style") ?? "").split(";")) {
+    const [name, value] = declaration.split(":");
+    if (name && value) style.set(name.trim(), value.trim());
+  }
+  return style;
+}
+
+/**
+ * Usable width and, for containers that cannot grow, height
+ */
+function measureContainer(container: LayoutContainer): Geometry | undefined {
+  if (container.type === "cell") {
+    const tcW = findFirst(child(container.node, "w:tcPr"), "w:tcW");
+    const type = attr(tcW, "w:type") ?? "dxa";
+    const width = Number(attr(tcW, "w:w"));
+    if (type !== "dxa" || !width) return undefined;
+
+    const trHeight = findFirst(child(container.row, "w:trPr"), "w:trHeight");
+    const exact = attr(trHeight, "w:hRule") === "exact";
+    return {
+      widthPt: width / 20 - 2 * CELL_MARGIN_PT,
+      heightPt: exact ? Number(attr(trHeight, "w:val")) / 20 : undefined,
+    };
+  }
+
+  if (container.type === "frame") {
+    const framePr = findFirst(child(container.node, "w:pPr"), "w:framePr");
+    const width = Number(attr(framePr, "w:w"));
+    if (!width) return undefined;
+    const exact = attr(framePr, "w:hRule") === "exact";
+    return {
+      widthPt: width / 20,
+      heightPt: exact ? Number(attr(framePr, "w:h")) / 20 : undefined,
+    };
+  }
+
+  // DrawingML text box: wp:extent in EMU, insets on wps:bodyPr
+  if (tagOf(container.node) === "w:drawing") {
+    const extent = findFirst(container.node, "wp:extent");
+    const bodyPr = findFirst(container.node, "wps:bodyPr");
+    const cx = Number(attr(extent, "cx"));
+    if (!cx) return undefined;
+    const inset = (name: string, fallback: number) => Number(attr(bodyPr, name) ?? fallback);
+    const grows = !!bodyPr && !!findFirst(bodyPr["wps:bodyPr"], "a:spAutoFit");
+    return {
+      widthPt: (cx - inset("lIns", BOX_INSET_X_EMU) - inset("rIns", BOX_INSET_X_EMU)) / EMU_PER_PT,
+      heightPt: grows
+        ? undefined
+        : (Number(attr(extent, "cy")) - inset("tIns", BOX_INSET_Y_EMU) - inset("bIns", BOX_INSET_Y_EMU)) /
+          EMU_PER_PT,
+    };
+  }
+
+  // VML text box: size in the shape's style attribute
+  const style = vmlStyle(container.node);
+  const width = vmlLength(style.get("width"));
+  if (!width) return undefined;
+  const textbox = findFirst(container.node, "v:textbox");
+  const grows = vmlStyle(textbox).get("mso-fit-shape-to-text") === "t";
+  const height = vmlLength(style.get("height"));
+  return {
+    widthPt: width - (2 * BOX_INSET_X_EMU) / EMU_PER_PT,
+    heightPt: grows || !height ? undefined : height - (2 * BOX_INSET_Y_EMU) / EMU_PER_PT,
+  };
+}
+
+/**
+ * Document default font size in points (w:docDefaults in styles.xml, else Word's 10pt)
+ */
+async function readDefaultFontSize(parsed: ParsedDocx): Promise<number> {
+  const styles = await parsed.zip.file("word/styles.xml")?.async("string");
+  if (!styles) return 10;
+  const rPrDefault = findFirst(parseXmlPart(styles), "w:rPrDefault");
+  const size = Number(attr(findFirst(rPrDefault, "w:sz"), "w:val"));
+  return size ? size / 2 : 10;
+}
+
+function runFontSize(runNode: any, fallback: number): number {
+  const size = Number(attr(findFirst(child(runNode, "w:rPr"), "w:sz"), "w:val"));
+  return size ? size / 2 : fallback;
+}
+
+/**
+ * Character-weighted font size of a paragraph's runs
+ */
+function segmentFontSize(segment: DocxSegment, fallback: number): number {
+  let chars = 0;
+  let total = 0;
+  for (const info of segment.wtNodeInfos) {
+    const length = String(info.textNode["#text"]).length;
+    chars += length;
+    total += length * runFontSize(info.runNode, fallback);
+  }
+  return chars > 0 ? total / chars : fallback;
+}
+
+/**
+ * Rough rendered width: full-width (CJK) characters take one em, others half
+ */
+function textWidthEm(text: string): number {
+  let width = 0;
+  for (const char of text) {
+    width += FULL_WIDTH.test(char) ? 1 : 0.5;
+  }
+  return width;
+}
+
+function textHeight(text: string, fontSize: number, widthPt: number): number {
+  const lines = Math.max(1, Math.ceil((textWidthEm(text) * fontSize) / widthPt));
+  return lines * fontSize * LINE_HEIGHT;
+}
+
+function setFontScale(segments: DocxSegment[], scale: number, fallback: number): void {
+  const runs = new Set(segments.flatMap((seg) => seg.wtNodeInfos.map((info) => info.runNode)));
+  for (const run of runs) {
+    if (!run) continue;
+    const halfPoints = Math.max(MIN_FONT_HALF_POINTS, Math.round(runFontSize(run, fallback) * 2 * scale));
+    setRunProperty(run, xmlElement("w:sz", [], { "w:val": String(halfPoints) }));
+    setRunProperty(run, xmlElement("w:szCs", [], { "w:val": String(halfPoints) }));
+  }
+}
+
+/**
+ * Let a fixed-height container grow with its text. Returns false when there
+ * is nothing to relax (the container already grows).
+ */
+function allowAutofit(container: LayoutContainer): boolean {
+  if (container.type === "cell" || container.type === "frame") {
+    const holder =
+      container.type === "cell"
+        ? findFirst(child(container.row, "w:trPr"), "w:trHeight")
+        : findFirst(child(container.node, "w:pPr"), "w:framePr");
+    if (attr(holder, "w:hRule") !== "exact") return false;
+    holder[":@"]["@_w:hRule"] = "atLeast";
+    return true;
+  }
+
+  if (tagOf(container.node) === "w:drawing") {
+    const bodyPr = findFirst(container.node, "wps:bodyPr");
+    if (!bodyPr) return false;
+    bodyPr["wps:bodyPr"] = bodyPr["wps:bodyPr"].filter(
+      (item: any) => !["a:noAutofit", "a:normAutofit", "a:spAutoFit"].includes(tagOf(item) ?? "")
+    );
+    bodyPr["wps:bodyPr"].push(xmlElement("a:spAutoFit"));
+    return true;
+  }
+
+  const textbox = findFirst(container.node, "v:textbox");
+  if (!textbox) return false;
+  const style = vmlStyle(textbox);
+  style.set("mso-fit-shape-to-text", "t");
+  textbox[":@"] = {
+    ...textbox[":@"],
+    "@_style": Array.from(style.entries())
+      .map(([name, value]) => `${name}:${value}`)
+      .join(";"),
+  };
+  return true;
+}
+
+/**
+ * Check translated paragraphs against the size of their table cell, text box
+ * or frame. The translation may not need more height than the container
+ * allows (fixed height) or than the original text took (growing containers,
+ * where extra lines shift the converted layout). Depending on the mode,
+ * overflowing containers get a smaller font, are allowed to grow, or are
+ * only reported.
+ */
+export async function fitLayout(parsed: ParsedDocx, mode: LayoutMode): Promise<LayoutIssue[]> {
+  if (mode === "off") return [];
+
+  const defaultSize = await readDefaultFontSize(parsed);
+  const minScale = parseFloat(process.env.LAYOUT_MIN_FONT_SCALE || "0.7");
+
+  // Paragraphs sharing a container share its space
+  const groups = new Map<any, { container: LayoutContainer; segments: DocxSegment[] }>();
+  for (const segment of parsed.segments) {
+    if (!segment.container) continue;
+    const group = groups.get(segment.container.node);
+    if (group) group.segments.push(segment);
+    else groups.set(segment.container.node, { container: segment.container, segments: [segment] });
+  }
+
+  const issues: LayoutIssue[] = [];
+  for (const { container, segments } of groups.values()) {
+    if (!segments.some((seg) => seg.translated !== undefined)) continue;
+
+    const geometry = measureContainer(container);
+    if (!geometry || geometry.widthPt <= 0) continue;
+
+    const sizes = segments.map((seg) => segmentFontSize(seg, defaultSize));
+    const heightAt = (scale: number, translated: boolean) =>
+      segments.reduce((sum, seg, i) => {
+        const text = translated ? seg.translated ?? seg.text : seg.text;
+        return sum + textHeight(text, sizes[i] * scale, geometry.widthPt);
+      }, 0);
+
+    // The estimate is rough: the original is assumed to fit, whatever it measures
+    const available = Math.max(geometry.heightPt ?? 0, heightAt(1, false));
+    let required = heightAt(1, true);
+    if (required <= available) continue;
+
+    const issue: LayoutIssue = {
+      segmentIds: segments.map((seg) => seg.id),
+      part: segments[0].part,
+      container: container.type,
+      widthPt: Math.round(geometry.widthPt * 10) / 10,
+      requiredHeightPt: Math.round(required * 10) / 10,
+      availableHeightPt: Math.round(available * 10) / 10,
+      action: "flagged",
+      fits: false,
+    };
+
+    if (mode === "shrink") {
+      let scale = 1;
+      while (scale - 0.05 >= minScale - 1e-9 && required > available) {
+        scale = Math.round((scale - 0.05) * 100) / 100;
+        required = heightAt(scale, true);
+      }
+      setFontScale(segments, scale, defaultSize);
+      issue.action = "shrunk";
+      issue.fontScale = scale;
+      issue.requiredHeightPt = Math.round(required * 10) / 10;
+      issue.fits = required <= available;
+    } else if (mode === "autofit" && allowAutofit(container)) {
+      issue.action = "autofit";
+      issue.fits = true;
+    }
+
+    issues.push(issue);
+  }
+
+  if (issues.length > 0) {
+    console.log(`Layout check: ${issues.length} containers overflow (${mode})`);
+  }
+  return issues;
+}
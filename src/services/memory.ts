@@ -0,0 +1,297 @@
+/**
+ * Translation memory - reuse of earlier translations across jobs.
+ * Each tenant has its own memory; units without a tenant (stored while
+ * authentication was off) form a shared pool.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { XMLBuilder } from "fast-xml-parser";
+
+export interface MemoryUnit {
+  source: string;
+  target: string;
+  sourceLang: string;
+  targetLang: string;
+  tenant?: string;
+  jobId?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface MemoryMatch {
+  unit: MemoryUnit;
+  similarity: number; // 1 for exact hits
+  exact: boolean;
+}
+
+interface PairIndex {
+  sourceLang: string;
+  targetLang: string;
+  tenant?: string;
+  units: Map<string, MemoryUnit>; // normalized source -> unit
+  tokens: Map<string, Set<string>>; // token -> normalized sources containing it
+}
+
+// Fuzzy candidates scored per lookup (ranked by shared tokens first)
+const MAX_FUZZY_CANDIDATES = 20;
+
+let memoryDir: string | null = null;
+const pairs = new Map<string, PairIndex>();
+
+function pairKey(sourceLang: string, targetLang: string, tenant?: string): string {
+  const pair = `${sourceLang}__${targetLang}`;
+  return tenant ? `${encodeURIComponent(tenant)}__${pair}` : pair;
+}
+
+function pairPath(key: string): string {
+  if (!memoryDir) {
+    throw new Error("Translation memory not initialized");
+  }
+  return path.join(memoryDir, `${key}.jsonl`);
+}
+
+/**
+ * Normalize source text for keying: Unicode NFC, collapsed whitespace
+ */
+export function normalizeSource(text: string): string {
+  return text.normalize("NFC").replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Tokens used to find fuzzy candidates: lowercase words, or CJK bigrams
+ */
+function tokenize(normalized: string): string[] {
+  const lower = normalized.toLowerCase();
+  const words = lower.match(/[a-z0-9]{3,}/g) || [];
+  const cjk = lower.replace(/[\x00-\x7f]/g, "");
+  const bigrams: string[] = [];
+  for (let i = 0; i + 1 < cjk.length; i++) {
+    bigrams.push(cjk.slice(i, i + 2));
+  }
+  return Array.from(new Set([...words, ...bigrams]));
+}
+
+/**
+ * Levenshtein-based similarity in [0, 1]
+ */
+function similarity(a: string, b: string): number {
+  if (a === b) return 1;
+  const maxLen = Math.max(a.length, b.length);
+  if (maxLen === 0) return 1;
+
+  let prev = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const curr = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      curr[j] = Math.min(prev[j] + 1, curr[j - 1] + 1, prev[j - 1] + cost);
+    }
+    prev = curr;
+  }
+  return 1 - prev[b.length] / maxLen;
+}
+
+function indexUnit(index: PairIndex, key: string, unit: MemoryUnit): void {
+  index.units.set(key, unit);
+  for (const token of tokenize(key)) {
+    let keys = index.tokens.get(token);
+    if (!keys) {
+      keys = new Set();
+      index.tokens.set(token, keys);
+    }
+    keys.add(key);
+  }
+}
+
+function getPair(sourceLang: string, targetLang: string, tenant?: string): PairIndex {
+  const key = pairKey(sourceLang, targetLang, tenant);
+  let index = pairs.get(key);
+  if (!index) {
+    index = { sourceLang, targetLang, tenant, units: new Map(), tokens: new Map() };
+    pairs.set(key, index);
+  }
+  return index;
+}
+
+/**
+ * Load translation memory files (one append-only JSONL file per tenant and
+ * language pair)
+ */
+export function initMemoryStore(dir: string): void {
+  memoryDir = dir;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  pairs.clear();
+  let count = 0;
+  for (const file of fs.readdirSync(dir)) {
+    if (!file.endsWith(".jsonl")) continue;
+    for (const line of fs.readFileSync(path.join(dir, file), "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const unit = JSON.parse(line) as MemoryUnit;
+        indexUnit(
+          getPair(unit.sourceLang, unit.targetLang, unit.tenant),
+          normalizeSource(unit.source),
+          unit
+        );
+        count++;
+      } catch {
+        // Skip truncated lines
+      }
+    }
+  }
+
+  console.log(`Loaded translation memory: ${count} records`);
+}
+
+/**
+ * Look up a source text in a tenant's memory: exact match first, then the
+ * most similar unit at or above the fuzzy threshold.
+ */
+export function lookupMemory(
+  text: string,
+  sourceLang: string,
+  targetLang: string,
+  fuzzyThreshold: number,
+  tenant?: string
+): MemoryMatch | undefined {
+  const index = pairs.get(pairKey(sourceLang, targetLang, tenant));
+  if (!index) return undefined;
+
+  const key = normalizeSource(text);
+  const exact = index.units.get(key);
+  if (exact) {
+    return { unit: exact, similarity: 1, exact: true };
+  }
+
+  // Rank candidates by the number of shared tokens
+  const shared = new Map<string, number>();
+  for (const token of tokenize(key)) {
+    for (const candidate of index.tokens.get(token) ?? []) {
+      shared.set(candidate, (shared.get(candidate) ?? 0) + 1);
+    }
+  }
+
+  const candidates = Array.from(shared.entries())
+    .sort((a, b) => b[1] - a[1])
+    .slice(0, MAX_FUZZY_CANDIDATES);
+
+  let best: MemoryMatch | undefined;
+  for (const [candidate] of candidates) {
+    // Length difference alone bounds the achievable similarity
+    const lengthBound = Math.min(key.length, candidate.length) / Math.max(key.length, candidate.length);
+    if (lengthBound < fuzzyThreshold) continue;
+
+    const score = similarity(key, candidate);
+    if (score >= fuzzyThreshold && (!best || score > best.similarity)) {
+      best = { unit: index.units.get(candidate)!, similarity: score, exact: false };
+    }
+  }
+  return best;
+}
+
+/**
+ * Add or update translation units of a tenant
+ */
+export function addToMemory(
+  entries: { source: string; target: string }[],
+  sourceLang: string,
+  targetLang: string,
+  jobId?: string,
+  tenant?: string
+): number {
+  const index = getPair(sourceLang, targetLang, tenant);
+  const now = Date.now();
+  const lines: string[] = [];
+
+  for (const entry of entries) {
+    const key = normalizeSource(entry.source);
+    const target = entry.target.trim();
+    if (!key || !target) continue;
+
+    const existing = index.units.get(key);
+    if (existing && existing.target === target) continue;
+
+    const unit: MemoryUnit = {
+      source: key,
+      target,
+      sourceLang,
+      targetLang,
+      ...(tenant ? { tenant } : {}),
+      ...(jobId ? { jobId } : {}),
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    indexUnit(index, key, unit);
+    lines.push(JSON.stringify(unit) + "\n");
+  }
+
+  if (lines.length > 0) {
+    fs.appendFileSync(pairPath(pairKey(sourceLang, targetLang, tenant)), lines.join(""), "utf8");
+  }
+  return lines.length;
+}
+
+/**
+ * Number of units per language pair in a tenant's memory
+ */
+export function getMemoryStats(
+  tenant?: string
+): { sourceLang: string; targetLang: string; units: number }[] {
+  return Array.from(pairs.values())
+    .filter((index) => index.tenant === tenant)
+    .map((index) => ({
+      sourceLang: index.sourceLang,
+      targetLang: index.targetLang,
+      units: index.units.size,
+    }));
+}
+
+function tmxDate(ms: number): string {
+  return new Date(ms).toISOString().replace(/[-:]/g, "").replace(/\.\d{3}/, "");
+}
+
+/**
+ * Export one language pair of a tenant's memory as TMX 1.4
+ */
+export function toTmx(sourceLang: string, targetLang: string, tenant?: string): string {
+  const index = pairs.get(pairKey(sourceLang, targetLang, tenant));
+  const units = index ? Array.from(index.units.values()) : [];
+
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    format: true,
+  });
+
+  const body = builder.build({
+    tmx: {
+      "@_version": "1.4",
+      header: {
+        "@_creationtool": "word-trans",
+        "@_creationtoolversion": "1.0.0",
+        "@_datatype": "plaintext",
+        "@_segtype": "paragraph",
+        "@_adminlang": "en",
+        "@_srclang": sourceLang,
+        "@_o-tmf": "word-trans",
+      },
+      body: {
+        tu: units.map((u) => ({
+          "@_creationdate": tmxDate(u.createdAt),
+          "@_changedate": tmxDate(u.updatedAt),
+          tuv: [
+            { "@_xml:lang": sourceLang, seg: u.source },
+            { "@_xml:lang": targetLang, seg: u.target },
+          ],
+        })),
+      },
+    },
+  });
+
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${body}`;
+}
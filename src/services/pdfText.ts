@@ -0,0 +1,277 @@
+/**
+ * Minimal PDF text extraction for the offline converter.
+ * Reads the text operators of uncompressed and Flate-compressed content streams
+ * in file order. Fonts with custom encodings (e.g. CID subsets) and scanned pages
+ * yield no text; those documents need the Adobe or LibreOffice converter.
+ */
+
+import * as zlib from "zlib";
+
+interface TextLine {
+  text: string;
+  y: number; // text-space baseline, larger is higher on the page
+}
+
+// Dictionaries of streams that never hold page text (images, fonts, xref and object streams)
+const NON_CONTENT_STREAM = /\/Subtype\s*\/Image|\/Length[123]\b|\/Type\s*\/(?:XRef|ObjStm|Metadata|EmbeddedFile)/;
+
+// WinAnsiEncoding differs from Latin-1 in 0x80-0x9F
+const WIN_ANSI: Record<number, string> = {
+  0x80: "\u20ac",
+  0x85: "\u2026",
+  0x91: "\u2018",
+  0x92: "\u2019",
+  0x93: "\u201c",
+  0x94: "\u201d",
+  0x95: "\u2022",
+  0x96: "\u2013",
+  0x97: "\u2014",
+};
+
+function decodeBytes(bytes: string): string | null {
+  let text = "";
+  for (let i = 0; i < bytes.length; i++) {
+    const code = bytes.charCodeAt(i);
+    // Control bytes mean a multi-byte font encoding we cannot map
+    if (code < 0x20 && code !== 0x09 && code !== 0x0a && code !== 0x0d) return null;
+    text += WIN_ANSI[code] ?? bytes[i];
+  }
+  return text;
+}
+
+/**
+ * Content streams of the file, decompressed where needed
+ */
+function contentStreams(pdf: string): string[] {
+  const streams: string[] = [];
+  const keyword = /\bstream\r?\n/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = keyword.exec(pdf))) {
+    const dictStart = pdf.lastIndexOf("obj", match.index);
+    const dict = dictStart === -1 ? "" : pdf.slice(dictStart, match.index);
+    const start = match.index + match[0].length;
+
+    const length = dict.match(/\/Length\s+(\d+)(?!\s+\d+\s+R)/);
+    const end = length ? start + Number(length[1]) : pdf.indexOf("endstream", start);
+    if (end < start) break;
+    keyword.lastIndex = end;
+
+    if (NON_CONTENT_STREAM.test(dict)) continue;
+    const filter = dict.match(/\/Filter\s*\[?\s*\/(\w+)/)?.[1];
+    if (filter && filter !== "FlateDecode") continue;
+
+    const data = pdf.slice(start, end);
+    try {
+      const content = filter
+        ? zlib.inflateSync(Buffer.from(data, "latin1")).toString("latin1")
+        : data;
+      if (/\bBT\b/.test(content)) streams.push(content);
+    } catch (e) {
+      // Damaged or unsupported stream: skip it
+    }
+  }
+
+  return streams;
+}
+
+type Operand = number | string | Operand[] | { name: string };
+
+/**
+ * Read a literal string starting after "(" and return it with the end index
+ */
+function readLiteral(content: string, start: number): [string, number] {
+  let depth = 1;
+  let bytes = "";
+  let i = start;
+
+  while (i < content.length) {
+    const ch = content[i];
+    if (ch === "\\") {
+      const next = content[i + 1];
+      const escapes: Record<string, string> = { n: "\n", r: "\r", t: "\t", b: "\b", f: "\f" };
+      if (next in escapes) {
+        bytes += escapes[next];
+        i += 2;
+      } else if (/[0-7]/.test(next)) {
+        const octal = content.slice(i + 1, i + 4).match(/^[0-7]{1,3}/)![0];
+        bytes += String.fromCharCode(parseInt(octal, 8));
+        i += 1 + octal.length;
+      } else if (next === "\r" || next === "\n") {
+        // Line continuation
+        i += next === "\r" && content[i + 2] === "\n" ? 3 : 2;
+      } else {
+        bytes += next ?? "";
+        i += 2;
+      }
+      continue;
+    }
+    if (ch === "(") depth++;
+    if (ch === ")" && --depth === 0) return [bytes, i + 1];
+    bytes += ch;
+    i++;
+  }
+
+  return [bytes, i];
+}
+
+/**
+ * Run the text operators of one content stream and collect its lines
+ */
+function readLines(content: string): TextLine[] {
+  const lines: TextLine[] = [];
+  const stack: Operand[][] = [[]];
+  let line = "";
+  let y = 0;
+  let lineY = 0;
+
+  const operands = () => stack[stack.length - 1];
+  const newLine = () => {
+    if (line.trim()) lines.push({ text: line.replace(/\s+/g, " ").trim(), y: lineY });
+    line = "";
+    lineY = y;
+  };
+  const show = (value: Operand) => {
+    if (typeof value !== "string") return;
+    const text = decodeBytes(value);
+    if (text !== null) line += text;
+  };
+
+  let i = 0;
+  while (i < content.length) {
+    const ch = content[i];
+
+    if (/\s/.test(ch)) {
+      i++;
+    } else if (ch === "%") {
+      while (i < content.length && content[i] !== "\n" && content[i] !== "\r") i++;
+    } else if (ch === "(") {
+      const [bytes, end] = readLiteral(content, i + 1);
+      operands().push(bytes);
+      i = end;
+    } else if (ch === "<" && content[i + 1] === "<") {
+      i += 2;
+    } else if (ch === ">" && content[i + 1] === ">") {
+      i += 2;
+    } else if (ch === "<") {
+      const end = content.indexOf(">", i);
+      const hex = content.slice(i + 1, end === -1 ? content.length : end).replace(/\s/g, "");
+      let bytes = "";
+      for (let h = 0; h < hex.length; h += 2) {
+        bytes += String.fromCharCode(parseInt(hex.slice(h, h + 2).padEnd(2, "0"), 16));
+      }
+      operands().push(bytes);
+      i = end === -1 ? content.length : end + 1;
+    } else if (ch === "[") {
+      stack.push([]);
+      i++;
+    } else if (ch === "]") {
+      const array = stack.length > 1 ? stack.pop()! : [];
+      operands().push(array);
+      i++;
+    } else if (ch === "/") {
+      const name = content.slice(i + 1).match(/^[^\s\/\[\]<>()%{}]*/)![0];
+      operands().push({ name });
+      i += 1 + name.length;
+    } else if (/[\d+\-.]/.test(ch)) {
+      const number = content.slice(i).match(/^[+\-]?(?:\d+\.?\d*|\.\d+)/)?.[0] ?? ch;
+      operands().push(Number(number) || 0);
+      i += number.length;
+    } else {
+      const op = content.slice(i).match(/^[A-Za-z'"*\d]+|^./)![0];
+      i += op.length;
+      const args = operands();
+
+      switch (op) {
+        case "Td":
+        case "TD":
+          y += Number(args[1]) || 0;
+          if (Number(args[1])) newLine();
+          break;
+        case "Tm":
+          if (Number(args[5]) !== y) {
+            y = Number(args[5]) || 0;
+            newLine();
+          }
+          break;
+        case "T*":
+          newLine();
+          break;
+        case "Tj":
+          show(args[0]);
+          break;
+        case "'":
+          newLine();
+          show(args[0]);
+          break;
+        case '"':
+          newLine();
+          show(args[2]);
+          break;
+        case "TJ":
+          for (const item of (args[0] as Operand[]) ?? []) {
+            if (typeof item === "number") {
+              // Large negative kerning is a word gap
+              if (item < -250 && !line.endsWith(" ")) line += " ";
+            } else {
+              show(item);
+            }
+          }
+          break;
+        case "ID": {
+          // Inline image data: skip to its end marker
+          const end = content.indexOf("EI", i);
+          i = end === -1 ? content.length : end + 2;
+          break;
+        }
+      }
+      stack.splice(0, stack.length, []);
+    }
+  }
+  newLine();
+
+  return lines;
+}
+
+/**
+ * Join consecutive lines into paragraphs; a larger than usual gap,
+ * a jump upwards (new column or page) or a new stream starts a paragraph
+ */
+function toParagraphs(lines: TextLine[]): string[] {
+  const gaps = lines
+    .slice(1)
+    .map((line, i) => lines[i].y - line.y)
+    .filter((gap) => gap > 0)
+    .sort((a, b) => a - b);
+  const usualGap = gaps.length > 0 ? gaps[Math.floor(gaps.length / 2)] : 0;
+
+  const paragraphs: string[] = [];
+  let current = "";
+  lines.forEach((line, i) => {
+    const gap = i > 0 ? lines[i - 1].y - line.y : 0;
+    if (i > 0 && (gap <= 0 || gap > usualGap * 1.4)) {
+      paragraphs.push(current);
+      current = "";
+    }
+    if (!current) {
+      current = line.text;
+    } else if (/\w-$/.test(current)) {
+      // Hyphenated line break
+      current = current.slice(0, -1) + line.text;
+    } else {
+      current += " " + line.text;
+    }
+  });
+  if (current) paragraphs.push(current);
+
+  return paragraphs;
+}
+
+/**
+ * Extract the text of a PDF as paragraphs
+ */
+export function extractPdfParagraphs(pdf: Buffer): string[] {
+  return contentStreams(pdf.toString("latin1")).flatMap((content) =>
+    toParagraphs(readLines(content))
+  );
+}
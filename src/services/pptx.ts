@@ -0,0 +1,176 @@
+/**
+ * PPTX parsing and writing: DrawingML paragraphs (a:p) of slides and speaker
+ * notes, in the same segment model as DOCX. Charts, SmartArt and slide
+ * masters/layouts are left untouched.
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import JSZip from "jszip";
+
+import {
+  DocxPart,
+  DocxPartType,
+  DocxSegment,
+  OPTIONAL_PART_TYPES,
+  ParsedDocx,
+  ParseDocxOptions,
+  TextMarkup,
+  buildParagraphSegment,
+  parseXmlPart,
+  tagOf,
+  writePackage,
+} from "./docx";
+
+const PRESENTATION_PART = "ppt/presentation.xml";
+
+const SLIDE_REL_TYPE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships/slide";
+const NOTES_REL_TYPE =
+  "http://schemas.openxmlformats.org/officeDocument/2006/relationships/notesSlide";
+
+const DRAWING_MARKUP: TextMarkup = {
+  run: "a:r",
+  text: "a:t",
+  // Fields (slide number, date) are filled in by PowerPoint
+  skip: ["a:fld"],
+};
+
+interface Relationship {
+  id: string;
+  type: string;
+  target: string; // zip path
+}
+
+/**
+ * Relationships of a part, with targets resolved to zip paths
+ */
+async function readRelationships(zip: JSZip, partPath: string): Promise<Relationship[]> {
+  const dir = path.posix.dirname(partPath);
+  const relsPath = path.posix.join(dir, "_rels", `${path.posix.basename(partPath)}.rels`);
+  const source = await zip.file(relsPath)?.async("string");
+  if (!source) return [];
+
+  const root = parseXmlPart(source).find((node: any) => tagOf(node) === "Relationships");
+  return (root?.["Relationships"] ?? [])
+    .filter(
+      (node: any) =>
+        tagOf(node) === "Relationship" && node[":@"]?.["@_TargetMode"] !== "External"
+    )
+    .map((node: any) => {
+      const target: string = node[":@"]["@_Target"];
+      return {
+        id: node[":@"]["@_Id"],
+        type: node[":@"]["@_Type"],
+        target: target.startsWith("/") ? target.slice(1) : path.posix.join(dir, target),
+      };
+    });
+}
+
+/**
+ * Slide parts in presentation order (p:sldIdLst), not file name order
+ */
+async function slidePaths(zip: JSZip): Promise<string[]> {
+  const presentation = parseXmlPart(await zip.file(PRESENTATION_PART)!.async("string"));
+  const relationships = await readRelationships(zip, PRESENTATION_PART);
+
+  const ids: string[] = [];
+  const visit = (node: any) => {
+    if (Array.isArray(node)) {
+      node.forEach(visit);
+    } else if (tagOf(node) === "p:sldId") {
+      ids.push(node[":@"]?.["@_r:id"]);
+    } else if (tagOf(node)) {
+      visit(node[tagOf(node)!]);
+    }
+  };
+  visit(presentation);
+
+  return ids
+    .map((id) => relationships.find((rel) => rel.id === id && rel.type === SLIDE_REL_TYPE)?.target)
+    .filter((target): target is string => !!target && !!zip.file(target));
+}
+
+/**
+ * Extract a segment per a:p paragraph (shapes, tables and grouped shapes alike)
+ */
+function extractParagraphs(
+  node: any,
+  segments: DocxSegment[],
+  ctx: { part: string; partType: DocxPartType; counter: { id: number } }
+): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      extractParagraphs(item, segments, ctx);
+    }
+    return;
+  }
+
+  const tag = tagOf(node);
+  if (!tag || tag === "#text") return;
+
+  if (tag === "a:p") {
+    const segment = buildParagraphSegment(node, DRAWING_MARKUP, ctx);
+    if (segment) segments.push(segment);
+    return;
+  }
+
+  extractParagraphs(node[tag], segments, ctx);
+}
+
+/**
+ * Parse a PPTX file and extract text segments from its slides and,
+ * depending on options, their speaker notes
+ */
+export async function parsePptx(
+  filePath: string,
+  options?: ParseDocxOptions
+): Promise<ParsedDocx> {
+  const partTypes = options?.partTypes ?? OPTIONAL_PART_TYPES;
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+
+  if (!zip.file(PRESENTATION_PART)) {
+    throw new Error("Invalid PPTX: ppt/presentation.xml not found");
+  }
+
+  // Each slide, followed by its notes
+  const partList: { path: string; type: DocxPartType }[] = [];
+  for (const slidePath of await slidePaths(zip)) {
+    partList.push({ path: slidePath, type: "slide" });
+    if (partTypes.includes("notes")) {
+      const notes = (await readRelationships(zip, slidePath)).find(
+        (rel) => rel.type === NOTES_REL_TYPE && zip.file(rel.target)
+      );
+      if (notes) partList.push({ path: notes.target, type: "notes" });
+    }
+  }
+
+  const parts: DocxPart[] = [];
+  const segments: DocxSegment[] = [];
+  const counter = { id: 0 };
+
+  for (const { path: partPath, type } of partList) {
+    const source = await zip.file(partPath)!.async("string");
+    const xml = parseXmlPart(source);
+    parts.push({ path: partPath, type, xml, source });
+    extractParagraphs(xml, segments, { part: partPath, partType: type, counter });
+  }
+
+  console.log(
+    `Parsed PPTX: found ${segments.length} paragraph segments in ${parts.length} parts`
+  );
+
+  return {
+    zip,
+    parts,
+    segments,
+    partTypes: [...partTypes],
+  };
+}
+
+/**
+ * Write translated segments back to PPTX
+ */
+export async function writePptx(parsed: ParsedDocx, outputPath: string): Promise<void> {
+  await writePackage(parsed, outputPath);
+  console.log(`Wrote translated PPTX: ${outputPath}`);
+}
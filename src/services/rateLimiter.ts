@@ -0,0 +1,146 @@
+/**
+ * Token-per-minute aware concurrency limiter shared by all translation requests
+ */
+
+const WINDOW_MS = 60_000;
+
+interface Waiter {
+  tokens: number;
+  resolve: () => void;
+  reject: (error: Error) => void;
+  signal?: AbortSignal;
+  onAbort?: () => void;
+}
+
+/**
+ * Estimate token count for text without a tokenizer:
+ * CJK characters are roughly one token each, other text about four characters per token.
+ */
+export function estimateTokens(text: string): number {
+  const cjk = (text.match(/[\u3040-\u30ff\u3400-\u4dbf\u4e00-\u9fff\uf900-\ufaff\uac00-\ud7af]/g) || []).length;
+  return cjk + Math.ceil((text.length - cjk) / 4);
+}
+
+export class TokenRateLimiter {
+  private active = 0;
+  private usage: { at: number; tokens: number }[] = [];
+  private queue: Waiter[] = [];
+  private pausedUntil = 0;
+  private timer: NodeJS.Timeout | null = null;
+
+  constructor(
+    private readonly maxConcurrent: number,
+    private readonly tokensPerMinute: number // 0 = unlimited
+  ) {}
+
+  /**
+   * Wait for a free slot and enough token budget in the current minute
+   */
+  acquire(tokens: number, signal?: AbortSignal): Promise<void> {
+    if (signal?.aborted) {
+      return Promise.reject(abortError());
+    }
+
+    return new Promise((resolve, reject) => {
+      const waiter: Waiter = { tokens, resolve, reject, signal };
+      if (signal) {
+        waiter.onAbort = () => {
+          this.queue = this.queue.filter((w) => w !== waiter);
+          reject(abortError());
+        };
+        signal.addEventListener("abort", waiter.onAbort, { once: true });
+      }
+      this.queue.push(waiter);
+      this.drain();
+    });
+  }
+
+  /**
+   * Free a slot; reserved tokens are corrected to the actual usage when known
+   */
+  release(reservedTokens: number, actualTokens?: number): void {
+    this.active = Math.max(0, this.active - 1);
+    if (actualTokens !== undefined && actualTokens !== reservedTokens) {
+      this.usage.push({ at: Date.now(), tokens: actualTokens - reservedTokens });
+    }
+    this.drain();
+  }
+
+  /**
+   * Hold back every queued request, e.g. after a 429 with retry-after
+   */
+  pause(ms: number): void {
+    this.pausedUntil = Math.max(this.pausedUntil, Date.now() + ms);
+    this.drain();
+  }
+
+  private usedTokens(now: number): number {
+    this.usage = this.usage.filter((u) => now - u.at < WINDOW_MS);
+    return this.usage.reduce((sum, u) => sum + u.tokens, 0);
+  }
+
+  private drain(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+
+    while (this.queue.length > 0 && this.active < this.maxConcurrent) {
+      const now = Date.now();
+      if (now < this.pausedUntil) {
+        this.schedule(this.pausedUntil - now);
+        return;
+      }
+
+      const waiter = this.queue[0];
+      if (this.tokensPerMinute > 0) {
+        const used = this.usedTokens(now);
+        // A single oversized request is let through when nothing else is in flight
+        const fits = used + waiter.tokens <= this.tokensPerMinute || (used === 0 && this.active === 0);
+        if (!fits) {
+          const oldest = this.usage[0];
+          this.schedule(oldest ? WINDOW_MS - (now - oldest.at) + 10 : 1000);
+          return;
+        }
+      }
+
+      this.queue.shift();
+      if (waiter.signal && waiter.onAbort) {
+        waiter.signal.removeEventListener("abort", waiter.onAbort);
+      }
+      this.active++;
+      this.usage.push({ at: now, tokens: waiter.tokens });
+      waiter.resolve();
+    }
+  }
+
+  private schedule(ms: number): void {
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.drain();
+    }, Math.max(10, ms));
+  }
+}
+
+function abortError(): Error {
+  const error = new Error("Request aborted");
+  error.name = "AbortError";
+  return error;
+}
+
+let limiter: TokenRateLimiter | null = null;
+
+/**
+ * Shared limiter configured from MAX_CONCURRENT_REQUESTS (falls back to
+ * PARALLEL_CHUNKS) and AZURE_OPENAI_TOKENS_PER_MINUTE
+ */
+export function getRateLimiter(): TokenRateLimiter {
+  if (!limiter) {
+    const maxConcurrent = parseInt(
+      process.env.MAX_CONCURRENT_REQUESTS || process.env.PARALLEL_CHUNKS || "2"
+    );
+    const tokensPerMinute = parseInt(process.env.AZURE_OPENAI_TOKENS_PER_MINUTE || "0");
+    limiter = new TokenRateLimiter(Math.max(1, maxConcurrent), Math.max(0, tokensPerMinute));
+  }
+  return limiter;
+}
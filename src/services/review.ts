@@ -0,0 +1,193 @@
+/**
+ * Human post-editing of translations between QA and packing
+ */
+
+import { JobState, updateJob } from "../jobs";
+import { DocxSegment, ParsedDocx, stripInlineTags } from "./docx";
+import { documentTypeOf, parseDocument } from "./documents";
+import { appendCheckpoint, restoreCheckpoint } from "./checkpoint";
+import { checkSegmentCompliance } from "./compliance";
+import { resolveGlossaryEntries } from "./glossary";
+import { findSuspiciousTranslation } from "./validation";
+
+export interface ReviewSegment {
+  id: number;
+  part: string;
+  partType: DocxSegment["partType"];
+  source: string;
+  translated: string | null;
+  edited: boolean;
+  qaFlags: JobState["qaFlags"];
+  glossaryViolations: JobState["glossaryViolations"];
+}
+
+export interface ReviewPage {
+  total: number;
+  page: number;
+  pageSize: number;
+  segments: ReviewSegment[];
+}
+
+export interface ReviewQuery {
+  page: number; // 1-based
+  pageSize: number;
+  flagged: boolean; // only segments with QA flags or glossary violations
+}
+
+// Parsed documents of jobs waiting for review, kept so edits apply in place
+const documents = new Map<string, ParsedDocx>();
+
+/**
+ * Put a job's translated document up for review.
+ * Every translation is checkpointed so the review survives a restart.
+ */
+export function openReview(job: JobState, parsed: ParsedDocx): void {
+  appendCheckpoint(job.id, parsed.segments);
+  documents.set(job.id, parsed);
+}
+
+/**
+ * The document under review, re-parsed from the working document and the
+ * checkpoint after a restart
+ */
+export async function getReviewDocument(job: JobState): Promise<ParsedDocx> {
+  const cached = documents.get(job.id);
+  if (cached) return cached;
+
+  if (!job.workingDocxPath) {
+    throw new Error("Working document no longer available");
+  }
+  const parsed = await parseDocument(documentTypeOf(job.fileName), job.workingDocxPath, {
+    partTypes: job.options.partTypes,
+  });
+  restoreCheckpoint(job.id, parsed.segments);
+  documents.set(job.id, parsed);
+  return parsed;
+}
+
+/**
+ * Forget a job's review document (after finalizing or deleting)
+ */
+export function closeReview(jobId: string): void {
+  documents.delete(jobId);
+}
+
+function toReviewSegment(job: JobState, segment: DocxSegment): ReviewSegment {
+  return {
+    id: segment.id,
+    part: segment.part,
+    partType: segment.partType,
+    source: segment.text,
+    translated: segment.translated ?? null,
+    edited: (job.reviewedSegmentIds ?? []).includes(segment.id),
+    qaFlags: job.qaFlags.filter((f) => f.segmentId === segment.id),
+    glossaryViolations: job.glossaryViolations.filter((v) => v.segmentId === segment.id),
+  };
+}
+
+/**
+ * One page of segments with their translation and QA findings
+ */
+export async function listReviewSegments(job: JobState, query: ReviewQuery): Promise<ReviewPage> {
+  const parsed = await getReviewDocument(job);
+  let segments = parsed.segments;
+
+  if (query.flagged) {
+    const flagged = new Set([
+      ...job.qaFlags.map((f) => f.segmentId),
+      ...job.glossaryViolations.map((v) => v.segmentId),
+    ]);
+    segments = segments.filter((seg) => flagged.has(seg.id));
+  }
+
+  const start = (query.page - 1) * query.pageSize;
+  return {
+    total: segments.length,
+    page: query.page,
+    pageSize: query.pageSize,
+    segments: segments.slice(start, start + query.pageSize).map((seg) => toReviewSegment(job, seg)),
+  };
+}
+
+/**
+ * Set a reviewer's translation on a segment, with its tagged form when the
+ * reviewer's tool kept the run formatting
+ */
+function applyEdit(segment: DocxSegment, translated: string, markup?: string): void {
+  if (markup !== undefined && stripInlineTags(markup) === translated) {
+    segment.translatedMarkup = markup;
+  } else if (segment.translatedMarkup && stripInlineTags(segment.translatedMarkup) !== translated) {
+    // Run formatting is kept only while the edit matches the tagged translation
+    segment.translatedMarkup = undefined;
+  }
+  segment.translated = translated;
+}
+
+/**
+ * Checkpoint edited segments and re-run their QA and glossary checks
+ */
+function recordEdits(job: JobState, edited: DocxSegment[]): void {
+  appendCheckpoint(job.id, edited);
+
+  const ids = new Set(edited.map((seg) => seg.id));
+  const glossary = resolveGlossaryEntries(job.options.glossaryIds);
+  updateJob(job, {
+    qaFlags: job.qaFlags
+      .filter((f) => !ids.has(f.segmentId))
+      .concat(edited.flatMap((seg) => findSuspiciousTranslation(seg))),
+    glossaryViolations: job.glossaryViolations
+      .filter((v) => !ids.has(v.segmentId))
+      .concat(edited.flatMap((seg) => checkSegmentCompliance(seg, glossary))),
+    reviewedSegmentIds: Array.from(new Set([...(job.reviewedSegmentIds ?? []), ...ids])),
+  });
+}
+
+/**
+ * Replace a segment's translation with a reviewer's edit and re-run its checks.
+ * Returns undefined when the segment does not exist.
+ */
+export async function editReviewSegment(
+  job: JobState,
+  segmentId: number,
+  translated: string
+): Promise<ReviewSegment | undefined> {
+  const parsed = await getReviewDocument(job);
+  const segment = parsed.segments.find((seg) => seg.id === segmentId);
+  if (!segment) return undefined;
+
+  applyEdit(segment, translated);
+  recordEdits(job, [segment]);
+
+  return toReviewSegment(job, segment);
+}
+
+/**
+ * Apply many edits at once (e.g. from an imported XLIFF file), each with an
+ * optional tagged form. Unchanged translations are skipped so their run
+ * formatting survives. Returns the number of segments that changed.
+ */
+export async function editReviewSegments(
+  job: JobState,
+  translations: Map<number, { text: string; markup?: string }>
+): Promise<number> {
+  const parsed = await getReviewDocument(job);
+  const edited: DocxSegment[] = [];
+
+  for (const segment of parsed.segments) {
+    const translation = translations.get(segment.id);
+    if (
+      translation === undefined ||
+      (translation.text === segment.translated &&
+        (translation.markup === undefined || translation.markup === segment.translatedMarkup))
+    ) {
+      continue;
+    }
+    applyEdit(segment, translation.text, translation.markup);
+    edited.push(segment);
+  }
+
+  if (edited.length > 0) {
+    recordEdits(job, edited);
+  }
+  return edited.length;
+}
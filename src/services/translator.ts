@@ -1,38 +1,41 @@
 /**
- * Azure OpenAI translation service
+ * Translation service: batching, prompting and validation on top of a translation engine
  */
 
-import { AzureOpenAI } from "openai";
-import { JobState, updateJob } from "../jobs";
-import { DocxSegment } from "./docx";
-
-// Initialize Azure OpenAI client
-let client: AzureOpenAI | null = null;
-
-function getClient(): AzureOpenAI {
-  if (!client) {
-    const endpoint = process.env.AZURE_OPENAI_ENDPOINT;
-    const apiKey = process.env.AZURE_OPENAI_API_KEY;
-    const apiVersion = process.env.AZURE_OPENAI_API_VERSION || "2024-10-01-preview";
-
-    if (!endpoint || !apiKey) {
-      throw new Error("AZURE_OPENAI_ENDPOINT and AZURE_OPENAI_API_KEY must be set");
-    }
-
-    client = new AzureOpenAI({
-      endpoint,
-      apiKey,
-      apiVersion,
-    });
-  }
-  return client;
-}
+import { APIError, APIConnectionError } from "openai";
+import { JobState, JobUsage, updateJob } from "../jobs";
+import { EngineName, TranslationEngine, getEngine, priceUsage } from "./engines";
+import { DocxSegment, stripInlineTags, canApplyInlineMarkup } from "./docx";
+import { GlossaryEntry, matchGlossary, formatGlossaryForPrompt } from "./glossary";
+import { checkGlossaryCompliance, buildCorrections } from "./compliance";
+import { MemoryMatch, lookupMemory, addToMemory } from "./memory";
+import { getRateLimiter, estimateTokens } from "./rateLimiter";
+import { checkBudget } from "./budget";
+import { recordUsage } from "./usage";
+import {
+  QaFlag,
+  validateBatchResponse,
+  findMergedNeighbours,
+  findSuspiciousTranslation,
+} from "./validation";
+import {
+  Language,
+  requireLanguage,
+  countScriptChars,
+  DEFAULT_SOURCE_LANG,
+  DEFAULT_TARGET_LANG,
+} from "./languages";
 
 export interface TranslateOptions {
   chunkSize?: number; // default: 20 (from env CHUNK_SIZE)
-  parallelChunks?: number; // default: 2 (from env PARALLEL_CHUNKS)
-  sourceLang?: string; // default: "English"
-  targetLang?: string; // default: "Traditional Chinese"
+  sourceLang?: string; // language code or English name, default: "en"
+  targetLang?: string; // language code or English name, default: "zh-TW"
+  glossary?: GlossaryEntry[]; // default: no glossary
+  corrections?: Map<number, string>; // segment id -> correction instruction (repair pass)
+  references?: Map<number, MemoryMatch>; // segment id -> fuzzy translation memory match
+  inlineTags?: boolean; // send mixed-formatting paragraphs with <rN> run tags (default: false)
+  engine?: EngineName; // default: TRANSLATION_ENGINE
+  onBatchComplete?: (segments: DocxSegment[]) => void; // called after each batch is applied
 }
 
 /**
@@ -87,33 +90,27 @@ export function looksLikeEnglish(text: string): boolean {
 }
 
 /**
- * Translate a batch of segments using Azure OpenAI
+ * Check if text contains source-language content that needs translation.
+ * Latin-script sources use the looksLikeEnglish heuristic; CJK sources
+ * need at least one character of their own script.
  */
-async function translateBatch(
-  segments: DocxSegment[],
-  sourceLang: string,
-  targetLang: string,
-  signal: AbortSignal
-): Promise<{ index: number; translated: string }[]> {
-  const openai = getClient();
-  const deployment = process.env.AZURE_OPENAI_DEPLOYMENT_NAME;
-
-  if (!deployment) {
-    throw new Error("AZURE_OPENAI_DEPLOYMENT_NAME must be set");
-  }
-
-  // Build payload
-  const payload = segments.map((seg) => ({
-    index: seg.id,
-    text: seg.text,
-  }));
+export function needsTranslation(text: string, source: Language): boolean {
+  if (source.script === "latin") return looksLikeEnglish(text);
+  if (!text || text.trim().length === 0) return false;
+  return countScriptChars(text, source) > 0;
+}
 
-  const systemPrompt = `You are a senior bilingual technical translator. Your ONLY task is to translate from **English to Traditional Chinese (Taiwan)**.
+/**
+ * Build the system prompt for a language pair.
+ * Optional sections (glossary, corrections, references) go before the output format.
+ */
+function buildSystemPrompt(source: Language, target: Language, sections: string[]): string {
+  return `You are a senior bilingual technical translator. Your ONLY task is to translate from **${source.promptName} to ${target.promptName}**.
 
-The documents are CB / IEC safety test reports and power electronics specifications. Your translation MUST sound like it was written by an experienced compliance engineer familiar with IEC/EN standards and safety reports used in Taiwan.
+The documents are CB / IEC safety test reports and power electronics specifications. Your translation MUST sound like it was written by an experienced compliance engineer familiar with IEC/EN standards and safety reports written in ${target.name}.
 
 ### Core rules
-1. **Direction:** Always translate **from English to Traditional Chinese**. Never translate Chinese back to English.
+1. **Direction:** Always translate **from ${source.name} to ${target.name}**. Never translate ${target.name} back to ${source.name}.
 2. **Style:**
    - Use formal, concise wording suitable for test reports, specifications, and certification documents.
    - Use clear engineering wording, not marketing language.
@@ -121,78 +118,163 @@ The documents are CB / IEC safety test reports and power electronics specificati
 3. **Formatting & layout:**
    - Preserve tables, item numbers, headings, clause numbers, units, symbols, and values.
    - Do NOT change numbers, limits, dates, test results, verdicts, or standard identifiers.
-   - Keep IEC / EN / UL standard codes (e.g., "IEC 62368-1") in English.
+   - Keep IEC / EN / UL standard codes (e.g., "IEC 62368-1") exactly as written.
 
-4. **What must remain in English:**
+4. **What must remain unchanged:**
    - Standard names and numbers (IEC/EN/UL/CSA, etc.).
    - Trade names, model names, company names, PCB designators (R1, C2, T1, etc.).
    - Keep abbreviations like "CB", "ICT", "AV" if they are part of standard terminology in the report.
 
-5. **Do NOT leave English untranslated**
-   - Except for items listed above, **everything else must be translated into Traditional Chinese**.
-   - If you must keep a term in English for technical accuracy, add a clear Traditional Chinese explanation on first occurrence.
-
-### Terminology – MANDATORY glossary (English → Traditional Chinese)
-When these English terms or phrases appear, you MUST use EXACTLY the following translations.
-Always match the **longest phrase first**.
-
-Parts / components:
-- Bleeding resistor → 洩放電阻
-- Electrolytic capacitor → 電解電容
-- MOSFET → 電晶體
-- Current limit resistor → 限流電阻
-- Varistor → 突波吸收器
-- Primary wire → 一次側引線
-- Line chock / Line choke → 電感
-- Bobbin → 線架
-- Plug holder → 刃片插座塑膠材質
-- AC connector → AC 連接器
-
-Circuit sides & windings:
-- primary winding → 一次側繞線
-- primary circuit → 一次側電路
-- primary (alone, referring to primary side) → 一次側
-- secondary → 二次側
-- Sec. (abbreviation) → 二次側
-- winding (general) → 繞線
-- core (magnetic core) → 鐵芯
-
-Test conditions, environment, status:
-- Unit shutdown immediately → 設備立即中斷
-- Unit shutdown / Unit shutdownr → 設備中斷
-- Ambient (temperature, condition) → 室溫
-- Plastic enclosure outside near → 塑膠外殼內側靠近
-- For model → 適用型號
-- Optional → 可選
-
-Additional wording constraints:
-- NEVER translate "primary" as "初級" or "一次測" or "一次"; always use **一次側**.
-- NEVER translate "secondary" as "次級"; always use **二次側**.
-- Use **Traditional Chinese** characters only.
-
-### Output format
+5. **Do NOT leave ${source.name} untranslated**
+   - Except for items listed above, **everything else must be translated into ${target.name}**.
+   - If you must keep a term in ${source.name} for technical accuracy, add a clear ${target.name} explanation on first occurrence.
+   - Use **${target.name}** ${target.script === "latin" ? "wording" : "characters"} only.
+
+${sections.map((section) => `${section}\n\n`).join("")}### Output format
 Return ONLY a JSON object with a "translations" array.
 Each item in the array: {"index": <number>, "translated": "<text>"}.
 Do NOT add explanations or any other text outside the JSON.`;
+}
+
+interface BatchContext {
+  engine: TranslationEngine;
+  source: Language;
+  target: Language;
+  glossary: GlossaryEntry[];
+  corrections?: Map<number, string>;
+  references?: Map<number, MemoryMatch>;
+  inlineTags?: boolean;
+}
+
+interface BatchResult {
+  // markup: the answer with inline tags, when the segment was sent tagged
+  translations: { index: number; translated: string; markup?: string }[];
+  usage: JobUsage;
+}
 
-  const userContent = JSON.stringify(payload);
-
-  const response = await openai.chat.completions.create(
-    {
-      model: deployment,
-      messages: [
-        { role: "system", content: systemPrompt },
-        { role: "user", content: userContent },
-      ],
-      response_format: { type: "json_object" },
-    },
-    { signal }
+/**
+ * Thrown when the model answers with something other than the expected JSON;
+ * carries the usage of the call, which is paid for all the same
+ */
+class MalformedResponseError extends Error {
+  constructor(message: string, readonly usage: JobUsage) {
+    super(message);
+    this.name = "MalformedResponseError";
+  }
+}
+
+/**
+ * Build the system prompt and user message for a batch
+ */
+function buildBatchRequest(
+  segments: DocxSegment[],
+  context: BatchContext
+): { systemPrompt: string; userContent: string } {
+  const { source, target, glossary, corrections, references, inlineTags } = context;
+
+  // Build payload (repair passes also send the previous translation and what to fix,
+  // fuzzy translation memory hits send the similar earlier translation)
+  const payload = segments.map((seg) => {
+    const tagged = inlineTags && seg.markup !== undefined;
+    const item: Record<string, unknown> = { index: seg.id, text: tagged ? seg.markup : seg.text };
+    const correction = corrections?.get(seg.id);
+    if (correction) {
+      item.previous = (tagged ? seg.translatedMarkup : undefined) ?? seg.translated ?? "";
+      item.correction = correction;
+    }
+    const reference = references?.get(seg.id);
+    if (reference) {
+      item.reference = { source: reference.unit.source, target: reference.unit.target };
+    }
+    return item;
+  });
+
+  const sections: string[] = [];
+
+  // Only inject glossary entries that actually occur in this batch
+  const matchedTerms = matchGlossary(glossary, segments.map((seg) => seg.text));
+  if (matchedTerms.length > 0) {
+    sections.push(formatGlossaryForPrompt(matchedTerms));
+  }
+
+  if (inlineTags && segments.some((seg) => seg.markup !== undefined)) {
+    sections.push(`### Inline formatting tags
+Some texts contain tags like <r1>...</r1> around words with their own formatting (bold, italic, superscript, hyperlinks).
+Put each tag pair exactly once around the translated words that correspond to the tagged source words. Never nest tags, never add new tags, and keep the tags in the same order as in the source. Text outside tags keeps the paragraph's normal formatting.`);
+  }
+
+  if (corrections && corrections.size > 0) {
+    sections.push(`### Corrections
+Some items include "previous" (an earlier translation) and "correction" (what was wrong with it).
+For those items, return a corrected translation that fixes exactly the listed problem and otherwise stays close to "previous".`);
+  }
+
+  if (references && references.size > 0) {
+    sections.push(`### Translation memory references
+Some items include "reference": an approved earlier translation of a similar source text ({"source", "target"}).
+Reuse its wording and terminology where the texts agree, but translate the item's own "text"; never copy parts that differ.`);
+  }
+
+  return {
+    systemPrompt: buildSystemPrompt(source, target, sections),
+    userContent: JSON.stringify(payload),
+  };
+}
+
+/**
+ * Estimate the prompt and completion tokens of a batch before sending it
+ */
+function estimateBatchUsage(segments: DocxSegment[], context: BatchContext): JobUsage {
+  const { systemPrompt, userContent } = buildBatchRequest(segments, context);
+  const sourceText = estimateTokens(segments.map((seg) => seg.text).join(""));
+  return {
+    prompt: estimateTokens(systemPrompt) + estimateTokens(userContent),
+    // The JSON answer repeats every index plus the translation, which runs longer in CJK
+    completion: Math.ceil(sourceText * 1.5) + segments.length * 10,
+    reasoning: 0,
+  };
+}
+
+/**
+ * Estimate prompt plus completion tokens for a batch (used for rate limiting)
+ */
+function estimateBatchTokens(segments: DocxSegment[], context: BatchContext): number {
+  const usage = estimateBatchUsage(segments, context);
+  return usage.prompt + usage.completion;
+}
+
+/**
+ * Translate a batch of segments with the context's engine.
+ * Every answered call goes to the usage ledger, even if its answer is unusable.
+ */
+async function translateBatch(
+  job: JobState,
+  segments: DocxSegment[],
+  context: BatchContext,
+  signal: AbortSignal
+): Promise<BatchResult> {
+  const { systemPrompt, userContent } = buildBatchRequest(segments, context);
+  const startedAt = Date.now();
+  const { content, usage } = await context.engine.translateBatch(
+    { systemPrompt, userContent, target: context.target },
+    signal
   );
 
+  recordUsage({
+    at: Date.now(),
+    jobId: job.id,
+    tenant: job.tenant,
+    apiKeyId: job.apiKeyId,
+    engine: context.engine.name,
+    deployment: context.engine.deployment,
+    ...usage,
+    costUSD: priceUsage(usage, context.engine.price),
+    latencyMs: Date.now() - startedAt,
+  });
+
   // Parse response
-  const content = response.choices[0]?.message?.content;
   if (!content) {
-    throw new Error("No content in Azure OpenAI response");
+    throw new MalformedResponseError(`No content in ${context.engine.name} response`, usage);
   }
 
   let parsed: any;
@@ -200,133 +282,476 @@ Do NOT add explanations or any other text outside the JSON.`;
     parsed = JSON.parse(content);
   } catch (e) {
     console.error("Failed to parse LLM response:", content);
-    throw new Error("Failed to parse translation response as JSON");
+    throw new MalformedResponseError("Failed to parse translation response as JSON", usage);
   }
 
   // Extract translations array
   const translations = parsed.translations || parsed;
   if (!Array.isArray(translations)) {
-    throw new Error("Expected translations array in response");
+    throw new MalformedResponseError("Expected translations array in response", usage);
+  }
+
+  return { translations, usage };
+}
+
+/**
+ * Decide what to do with a failed batch:
+ * retry - transient (rate limit, timeout, server error, malformed answer)
+ * split - the request itself is too large or rejected (400/413)
+ * fatal - configuration or authentication problems
+ */
+function classifyError(error: any): "retry" | "split" | "fatal" {
+  if (error instanceof MalformedResponseError) return "retry";
+  if (error instanceof APIConnectionError) return "retry";
+  if (error instanceof APIError && error.status !== undefined) {
+    const status = error.status;
+    if (status === 408 || status === 409 || status === 429 || status >= 500) return "retry";
+    if (status === 400 || status === 413) return "split";
+  }
+  return "fatal";
+}
+
+/**
+ * Delay before the next attempt: retry-after headers win, otherwise
+ * exponential backoff with jitter
+ */
+function retryDelayMs(error: any, attempt: number): number {
+  const headers = error instanceof APIError ? error.headers : undefined;
+  const retryAfterMs = headers?.["retry-after-ms"];
+  if (retryAfterMs && !isNaN(Number(retryAfterMs))) {
+    return Number(retryAfterMs);
+  }
+
+  const retryAfter = headers?.["retry-after"];
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const base = parseInt(process.env.RETRY_BASE_DELAY_MS || "1000");
+  const backoff = Math.min(base * 2 ** attempt, 60_000);
+  return backoff + Math.round(Math.random() * base);
+}
+
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      const error = new Error("Request aborted");
+      error.name = "AbortError";
+      reject(error);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    if (signal.aborted) onAbort();
+    else signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+// How often segments the model skipped are re-requested before giving up
+const MAX_MISSING_RETRIES = 2;
+
+/**
+ * Replace the QA flags recorded for a segment
+ */
+function setQaFlags(job: JobState, segmentId: number, flags: QaFlag[]): void {
+  job.qaFlags = job.qaFlags.filter((f) => f.segmentId !== segmentId).concat(flags);
+}
+
+/**
+ * Add the usage of one answered call to the job
+ */
+function addUsage(job: JobState, usage: JobUsage): void {
+  job.usage.prompt += usage.prompt;
+  job.usage.completion += usage.completion;
+  job.usage.reasoning += usage.reasoning;
+}
+
+/**
+ * Translate one batch through the shared rate limiter with retries.
+ * A batch that keeps failing is split in half and each half is run on its own.
+ * The answer is validated against the request: unknown indices are dropped and
+ * missing segments (plus neighbours that seem to have absorbed them) are
+ * re-requested. Results are handed to onResult as each (sub-)batch succeeds.
+ * Every answered call counts towards the job's usage and budget, including
+ * malformed answers and re-requests.
+ */
+async function runBatch(
+  job: JobState,
+  segments: DocxSegment[],
+  context: BatchContext,
+  signal: AbortSignal,
+  onResult: (segments: DocxSegment[], result: BatchResult) => void,
+  missingAttempt = 0
+): Promise<void> {
+  const maxRetries = parseInt(process.env.MAX_RETRIES || "4");
+  const limiter = getRateLimiter();
+  let lastError: any;
+
+  for (let attempt = 0; attempt <= maxRetries; attempt++) {
+    const reserved = estimateBatchTokens(segments, context);
+    await limiter.acquire(reserved, signal);
+
+    let result: BatchResult;
+    try {
+      result = await translateBatch(job, segments, context, signal);
+    } catch (error: any) {
+      limiter.release(reserved);
+      // An unusable answer is paid for all the same
+      const answered = error instanceof MalformedResponseError;
+      if (answered) addUsage(job, error.usage);
+      if (signal.aborted) throw error;
+      if (answered) checkBudget(job);
+
+      lastError = error;
+      const action = classifyError(error);
+      if (action === "fatal") throw error;
+      if (action === "split" || attempt === maxRetries) break;
+
+      const delay = retryDelayMs(error, attempt);
+      job.retryStats.retries++;
+      if (error instanceof APIError && error.status === 429) {
+        job.retryStats.rateLimited++;
+        // Hold back every request sharing this deployment, not just this batch
+        limiter.pause(delay);
+      }
+
+      console.warn(
+        `Batch of ${segments.length} failed (${error.message}), retry ${attempt + 1}/${maxRetries} in ${delay}ms`
+      );
+      updateJob(job, {
+        stepMessage: `翻譯請求失敗，${Math.ceil(delay / 1000)} 秒後重試 (${attempt + 1}/${maxRetries})...`,
+      });
+      await sleep(delay, signal);
+      continue;
+    }
+
+    const usage = result.usage;
+    limiter.release(reserved, usage.prompt + usage.completion + usage.reasoning);
+    addUsage(job, usage);
+
+    // Tagged answers are validated on their plain text; the tagged form is kept for the writer
+    const markups = new Map<number, string>();
+    const tagged = new Set(
+      context.inlineTags ? segments.filter((seg) => seg.markup !== undefined).map((seg) => seg.id) : []
+    );
+    const translations = result.translations.map((item: any) => {
+      if (!tagged.has(item?.index) || typeof item?.translated !== "string") return item;
+      markups.set(item.index, item.translated);
+      return { ...item, translated: stripInlineTags(item.translated) };
+    });
+
+    const validation = validateBatchResponse(segments, translations);
+    if (validation.unknown.length > 0 || validation.duplicates.length > 0) {
+      console.warn(
+        `Batch response had unknown indices [${validation.unknown.join(", ")}] and duplicates [${validation.duplicates.join(", ")}]`
+      );
+    }
+
+    // On the last attempt a suspected merge is kept rather than leaving the neighbour empty
+    const lastAttempt = missingAttempt >= MAX_MISSING_RETRIES;
+    const merged = lastAttempt ? [] : findMergedNeighbours(segments, validation);
+    const redo = new Set([...validation.missing, ...merged]);
+
+    const accepted = validation.accepted
+      .filter((a) => !merged.some((m) => m.id === a.index))
+      .map((a) => ({ ...a, markup: markups.get(a.index) }));
+    const acceptedIds = new Set(accepted.map((a) => a.index));
+    onResult(segments.filter((seg) => acceptedIds.has(seg.id)), { translations: accepted, usage });
+
+    // Stops the remaining batches; the accepted part is already checkpointed
+    checkBudget(job);
+
+    if (redo.size === 0) return;
+
+    if (lastAttempt) {
+      for (const seg of validation.missing) {
+        setQaFlags(job, seg.id, [
+          { segmentId: seg.id, type: "missing-translation", detail: "not returned by the model" },
+        ]);
+      }
+      console.warn(`${validation.missing.length} segments still missing after re-requests`);
+      return;
+    }
+
+    for (const seg of merged) {
+      setQaFlags(job, seg.id, [
+        { segmentId: seg.id, type: "possible-merge", detail: "contained a neighbouring paragraph" },
+      ]);
+    }
+
+    console.warn(
+      `Re-requesting ${validation.missing.length} missing and ${merged.length} merged segments`
+    );
+    await runBatch(
+      job,
+      segments.filter((seg) => redo.has(seg)),
+      context,
+      signal,
+      onResult,
+      missingAttempt + 1
+    );
+    return;
   }
 
-  // Extract usage info
-  const usage = response.usage;
+  if (segments.length <= 1) {
+    throw lastError;
+  }
+
+  const middle = Math.ceil(segments.length / 2);
+  job.retryStats.splits++;
+  console.warn(
+    `Splitting failing batch of ${segments.length} segments into ${middle} + ${segments.length - middle}`
+  );
+
+  await Promise.all([
+    runBatch(job, segments.slice(0, middle), context, signal, onResult, missingAttempt),
+    runBatch(job, segments.slice(middle), context, signal, onResult, missingAttempt),
+  ]);
+}
 
+/**
+ * Segments that need translation (only ones containing source-language text),
+ * split into batches of the configured chunk size
+ */
+function planBatches(segments: DocxSegment[], source: Language, options?: TranslateOptions) {
+  const chunkSize = options?.chunkSize ?? parseInt(process.env.CHUNK_SIZE || "20");
+  const toTranslate = segments.filter((seg) => needsTranslation(seg.text, source));
+
+  const chunks: DocxSegment[][] = [];
+  for (let i = 0; i < toTranslate.length; i += chunkSize) {
+    chunks.push(toTranslate.slice(i, i + chunkSize));
+  }
+  return { toTranslate, chunks };
+}
+
+/**
+ * Batch context for a language pair and the translate options
+ */
+function buildBatchContext(
+  source: Language,
+  target: Language,
+  options?: TranslateOptions
+): BatchContext {
   return {
-    translations,
-    usage: {
-      prompt: usage?.prompt_tokens || 0,
-      completion: usage?.completion_tokens || 0,
-      reasoning: (usage as any)?.reasoning_tokens || 0,
-    },
-  } as any;
+    engine: getEngine(options?.engine),
+    source,
+    target,
+    glossary: options?.glossary ?? [],
+    corrections: options?.corrections,
+    references: options?.references,
+    inlineTags: options?.inlineTags,
+  };
+}
+
+export interface TranslationEstimate {
+  segments: number; // segments that will be sent to the model
+  batches: number;
+  usage: JobUsage; // expected tokens (reasoning is not predictable and stays 0)
+  costUSD: number; // usage under the engine's price model
 }
 
 /**
- * Translate all segments in chunks with parallel processing
+ * Pre-flight estimate of what translateSegments will spend, before any request
+ * is made: same filtering, batching and prompts, with the answer length
+ * estimated from the source text. QA retranslation and glossary repairs come
+ * on top.
+ */
+export function estimateTranslation(
+  segments: DocxSegment[],
+  options?: TranslateOptions
+): TranslationEstimate {
+  const source = requireLanguage(options?.sourceLang ?? DEFAULT_SOURCE_LANG);
+  const target = requireLanguage(options?.targetLang ?? DEFAULT_TARGET_LANG);
+  const { toTranslate, chunks } = planBatches(segments, source, options);
+  const context = buildBatchContext(source, target, options);
+
+  const usage: JobUsage = { prompt: 0, completion: 0, reasoning: 0 };
+  for (const chunk of chunks) {
+    const batch = estimateBatchUsage(chunk, context);
+    usage.prompt += batch.prompt;
+    usage.completion += batch.completion;
+  }
+
+  return {
+    segments: toTranslate.length,
+    batches: chunks.length,
+    usage,
+    costUSD: priceUsage(usage, context.engine.price),
+  };
+}
+
+/**
+ * Translate all segments in chunks; the shared rate limiter decides how many
+ * chunks run concurrently
  */
 export async function translateSegments(
   job: JobState,
   segments: DocxSegment[],
   options?: TranslateOptions
 ): Promise<void> {
-  const chunkSize = options?.chunkSize ?? parseInt(process.env.CHUNK_SIZE || "20");
-  const parallelChunks = options?.parallelChunks ?? parseInt(process.env.PARALLEL_CHUNKS || "2");
-  const sourceLang = options?.sourceLang ?? "English";
-  const targetLang = options?.targetLang ?? "Traditional Chinese";
-
-  // Filter segments that need translation (only English-looking ones)
-  const toTranslate = segments.filter((seg) => looksLikeEnglish(seg.text));
+  const source = requireLanguage(options?.sourceLang ?? DEFAULT_SOURCE_LANG);
+  const target = requireLanguage(options?.targetLang ?? DEFAULT_TARGET_LANG);
+  const { toTranslate, chunks } = planBatches(segments, source, options);
 
   if (toTranslate.length === 0) {
-    console.log("No English segments found to translate");
+    console.log(`No ${source.name} segments found to translate`);
     return;
   }
 
   job.totalSegments = toTranslate.length;
   job.doneSegments = 0;
 
-  // Split into chunks
-  const chunks: DocxSegment[][] = [];
-  for (let i = 0; i < toTranslate.length; i += chunkSize) {
-    chunks.push(toTranslate.slice(i, i + chunkSize));
-  }
+  console.log(`Translating ${toTranslate.length} segments in ${chunks.length} batches`);
 
-  console.log(
-    `Translating ${toTranslate.length} segments in ${chunks.length} batches (parallel: ${parallelChunks})`
-  );
+  updateJob(job, {
+    stepMessage: `翻譯中 共 ${chunks.length} 批次...`,
+  });
 
-  // Process chunks in parallel batches
-  for (let i = 0; i < chunks.length; i += parallelChunks) {
-    // Check for cancellation
-    if (job.cancelled) {
-      throw new Error("Job cancelled");
-    }
+  const context = buildBatchContext(source, target, options);
 
-    // Get the next batch of chunks to process in parallel
-    const parallelBatch = chunks.slice(i, i + parallelChunks);
-    const batchStart = i + 1;
-    const batchEnd = Math.min(i + parallelChunks, chunks.length);
+  const byId = new Map(segments.map((seg) => [seg.id, seg]));
 
-    updateJob(job, {
-      stepMessage: `翻譯中 批次 ${batchStart}-${batchEnd}/${chunks.length}...`,
-    });
+  const applyResult = (chunk: DocxSegment[], result: BatchResult) => {
+    const { translations } = result;
 
-    try {
-      // Process chunks in parallel
-      const results = await Promise.all(
-        parallelBatch.map((chunk) =>
-          translateBatch(chunk, sourceLang, targetLang, job.abortController.signal)
-        )
-      );
+    // Map translations back to segments (indices were validated in runBatch)
+    for (const item of translations) {
+      const segment = byId.get(item.index);
+      if (segment) {
+        segment.translated = item.translated;
+        segment.translatedMarkup = item.markup;
 
-      // Process all results
-      for (let j = 0; j < results.length; j++) {
-        const result = results[j] as any;
-        const chunk = parallelBatch[j];
-        const { translations, usage } = result;
-
-        // Map translations back to segments
-        for (const item of translations) {
-          const segment = segments.find((s) => s.id === item.index);
-          if (segment) {
-            segment.translated = item.translated;
-          }
+        const flags = findSuspiciousTranslation(segment);
+        if (item.markup !== undefined && !canApplyInlineMarkup(segment, item.markup)) {
+          flags.push({
+            segmentId: segment.id,
+            type: "formatting-lost",
+            detail: "inline tags could not be mapped back to the runs",
+          });
         }
+        setQaFlags(job, segment.id, flags);
+      }
+    }
 
-        // Update usage
-        job.usage.prompt += usage.prompt;
-        job.usage.completion += usage.completion;
-        job.usage.reasoning += usage.reasoning;
+    // Update progress
+    job.doneSegments += chunk.length;
 
-        // Update progress
-        job.doneSegments += chunk.length;
-      }
+    options?.onBatchComplete?.(chunk);
 
-      const progressRatio = job.doneSegments / job.totalSegments;
-      // Translation phase is 15% to 70%
-      updateJob(job, {
-        progress: Math.round(15 + progressRatio * 55),
-      });
-    } catch (error: any) {
-      if (error.name === "AbortError" || job.cancelled) {
-        throw new Error("Job cancelled");
-      }
-      throw error;
+    const progressRatio = job.doneSegments / job.totalSegments;
+    // Translation phase is 15% to 70%
+    updateJob(job, {
+      stepMessage: `翻譯中 ${job.doneSegments}/${job.totalSegments} 區段...`,
+      progress: Math.round(15 + progressRatio * 55),
+    });
+  };
+
+  // Stop the remaining batches as soon as one fails or the job is cancelled
+  const batchAbort = new AbortController();
+  const onJobAbort = () => batchAbort.abort();
+  job.abortController.signal.addEventListener("abort", onJobAbort);
+
+  try {
+    await Promise.all(
+      chunks.map((chunk) => runBatch(job, chunk, context, batchAbort.signal, applyResult))
+    );
+  } catch (error: any) {
+    batchAbort.abort();
+    if (error.name === "AbortError" || job.cancelled) {
+      throw new Error("Job cancelled");
     }
+    throw error;
+  } finally {
+    job.abortController.signal.removeEventListener("abort", onJobAbort);
   }
 
   console.log(`Translation complete: ${job.doneSegments} segments translated`);
 }
 
 /**
- * Stricter check for QA - only flag segments that are MOSTLY English
+ * Apply the translation memory before translating.
+ * Exact hits are written to the segment directly and skip the model;
+ * fuzzy hits are returned so they can be passed to the prompt as references.
+ */
+export function applyTranslationMemory(
+  job: JobState,
+  segments: DocxSegment[],
+  options?: TranslateOptions
+): Map<number, MemoryMatch> {
+  const source = requireLanguage(options?.sourceLang ?? DEFAULT_SOURCE_LANG);
+  const target = requireLanguage(options?.targetLang ?? DEFAULT_TARGET_LANG);
+  const threshold = parseFloat(process.env.TM_FUZZY_THRESHOLD || "0.85");
+
+  const references = new Map<number, MemoryMatch>();
+  for (const seg of segments) {
+    if (!needsTranslation(seg.text, source)) continue;
+
+    const match = lookupMemory(seg.text, source.code, target.code, threshold, job.tenant);
+    if (match?.exact) {
+      seg.translated = match.unit.target;
+      job.memoryStats.exact++;
+    } else if (match) {
+      references.set(seg.id, match);
+      job.memoryStats.fuzzy++;
+    } else {
+      job.memoryStats.miss++;
+    }
+  }
+
+  console.log(
+    `Translation memory: ${job.memoryStats.exact} exact, ${job.memoryStats.fuzzy} fuzzy, ${job.memoryStats.miss} miss`
+  );
+  return references;
+}
+
+/**
+ * Store a finished job's translations in the translation memory.
+ * Segments with unresolved glossary violations are left out.
+ */
+export function rememberTranslations(
+  job: JobState,
+  segments: DocxSegment[],
+  options?: TranslateOptions
+): void {
+  const source = requireLanguage(options?.sourceLang ?? DEFAULT_SOURCE_LANG);
+  const target = requireLanguage(options?.targetLang ?? DEFAULT_TARGET_LANG);
+  const violating = new Set(job.glossaryViolations.map((v) => v.segmentId));
+
+  const entries = segments
+    .filter((seg) => seg.translated && !violating.has(seg.id) && needsTranslation(seg.text, source))
+    .map((seg) => ({ source: seg.text, target: seg.translated! }));
+
+  const added = addToMemory(entries, source.code, target.code, job.id, job.tenant);
+  console.log(`Translation memory: stored ${added} new units from job ${job.id}`);
+}
+
+/**
+ * Stricter check for QA - only flag segments that are MOSTLY source language
  * This is used after initial translation to avoid re-translating segments
- * that just have some technical terms in English (which is expected)
+ * that just have some technical terms in the source language (which is expected)
  */
-function needsRetranslation(text: string): boolean {
+function needsRetranslation(text: string, source: Language, target: Language): boolean {
   if (!text || text.trim().length === 0) return false;
 
+  // Same script on both sides (e.g. zh-TW -> zh-CN): residue cannot be told apart
+  if (source.script === target.script) return false;
+
+  if (source.script !== "latin") {
+    // Residue is source-script text the target script does not use
+    // (e.g. kana left in a Japanese -> Chinese translation)
+    const residueChars = countScriptChars(text.replace(target.pattern, ""), source);
+    if (residueChars === 0) return false;
+
+    // One CJK character carries about as much as a short Latin word
+    const weight = target.script === "latin" ? 3 : 1;
+    return residueChars * weight >= countScriptChars(text, target);
+  }
+
   // Skip list: terms that should remain in English
   const skipTerms = [
     // Standards
@@ -347,12 +772,12 @@ function needsRetranslation(text: string): boolean {
     textToCheck = textToCheck.replace(pattern, "");
   }
 
-  // Check if there are Chinese characters
-  const chineseChars = textToCheck.match(/[\u4e00-\u9fff]/g) || [];
+  // Check if there are target-script characters
+  const targetChars = countScriptChars(textToCheck, target);
   const letterCount = (textToCheck.match(/[A-Za-z]/g) || []).length;
 
-  // If there are Chinese characters and they outnumber English letters, it's translated
-  if (chineseChars.length > 0 && chineseChars.length >= letterCount) {
+  // If target-script characters outnumber Latin letters, it's translated
+  if (targetChars > 0 && targetChars >= letterCount) {
     return false;
   }
 
@@ -366,7 +791,8 @@ function needsRetranslation(text: string): boolean {
 }
 
 /**
- * QA check and retranslate any remaining English segments
+ * QA check and retranslate any segments still in the source language,
+ * then repair segments that violate the glossary
  */
 export async function qaAndRetranslate(
   job: JobState,
@@ -379,41 +805,101 @@ export async function qaAndRetranslate(
     progress: 80,
   });
 
-  // Find segments that still look like English (using stricter criteria)
+  const source = requireLanguage(options?.sourceLang ?? DEFAULT_SOURCE_LANG);
+  const target = requireLanguage(options?.targetLang ?? DEFAULT_TARGET_LANG);
+
+  // Find segments that still look like the source language (using stricter criteria)
   const pending = segments.filter((seg) => {
     // Only check segments that were translated
     if (!seg.translated) return false;
-    return needsRetranslation(seg.translated);
+    return needsRetranslation(seg.translated, source, target);
   });
 
   if (pending.length === 0) {
     updateJob(job, {
-      stepMessage: "QA 完成：無殘留英文",
+      stepMessage: "QA 完成：無殘留原文",
       progress: 85,
     });
-    console.log("QA done: no English remained");
+    console.log(`QA done: no ${source.name} remained`);
+  } else {
+    console.log(`QA found ${pending.length} segments still in ${source.name}`);
+
+    updateJob(job, {
+      status: "retranslating",
+      stepMessage: `重新翻譯 ${pending.length} 個區段...`,
+    });
+
+    // Re-translate only the pending segments
+    const oldDone = job.doneSegments;
+    job.doneSegments = 0;
+    job.totalSegments = pending.length;
+
+    await translateSegments(job, pending, options);
+
+    // Restore done count for reporting
+    job.doneSegments = oldDone + pending.length;
+
+    updateJob(job, {
+      stepMessage: "QA 重新翻譯完成",
+      progress: 88,
+    });
+  }
+
+  await repairGlossaryViolations(job, segments, options);
+
+  updateJob(job, {
+    progress: 90,
+  });
+}
+
+/**
+ * Check translations against the glossary and re-send only the violating
+ * segments with a targeted correction instruction. Violations that remain
+ * after the repair pass are recorded on the job.
+ */
+async function repairGlossaryViolations(
+  job: JobState,
+  segments: DocxSegment[],
+  options?: TranslateOptions
+): Promise<void> {
+  const glossary = options?.glossary ?? [];
+  if (glossary.length === 0) return;
+
+  const violations = checkGlossaryCompliance(segments, glossary);
+  if (violations.length === 0) {
+    job.glossaryViolations = [];
+    updateJob(job, { stepMessage: "QA 完成：詞彙表檢查通過" });
+    console.log("Glossary check done: no violations");
     return;
   }
 
-  console.log(`QA found ${pending.length} segments still in English`);
+  const corrections = buildCorrections(violations);
+  const violating = segments.filter((seg) => corrections.has(seg.id));
+
+  console.log(
+    `Glossary check found ${violations.length} violations in ${violating.length} segments`
+  );
 
   updateJob(job, {
     status: "retranslating",
-    stepMessage: `重新翻譯 ${pending.length} 個區段...`,
+    stepMessage: `修正詞彙不符 ${violating.length} 個區段...`,
   });
 
-  // Re-translate only the pending segments
   const oldDone = job.doneSegments;
   job.doneSegments = 0;
-  job.totalSegments = pending.length;
+  job.totalSegments = violating.length;
+
+  await translateSegments(job, violating, { ...options, corrections });
 
-  await translateSegments(job, pending, options);
+  job.doneSegments = oldDone + violating.length;
 
-  // Restore done count for reporting
-  job.doneSegments = oldDone + pending.length;
+  // Record what is still wrong after the repair pass
+  job.glossaryViolations = checkGlossaryCompliance(violating, glossary);
 
   updateJob(job, {
-    stepMessage: "QA 重新翻譯完成",
-    progress: 90,
+    stepMessage:
+      job.glossaryViolations.length > 0
+        ? `詞彙修正完成，仍有 ${job.glossaryViolations.length} 處不符`
+        : "詞彙修正完成",
   });
 }
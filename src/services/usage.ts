@@ -0,0 +1,235 @@
+/**
+ * Usage ledger: one record per model call, kept after jobs are gone, for
+ * usage and cost reports (monthly chargeback)
+ */
+
+import * as fs from "fs";
+import * as path from "path";
+import { EngineName } from "./engines";
+
+export interface UsageRecord {
+  at: number; // when the call returned (ms since epoch)
+  jobId: string;
+  tenant?: string; // tenant of the job, absent when authentication is off
+  apiKeyId?: string; // who uploaded the job (hash of the API key)
+  engine: EngineName;
+  deployment: string;
+  prompt: number;
+  completion: number;
+  reasoning: number;
+  costUSD: number;
+  latencyMs: number;
+}
+
+export type UsageGroup = "day" | "user" | "deployment";
+
+export const USAGE_GROUPS: UsageGroup[] = ["day", "user", "deployment"];
+
+export interface UsageSummary {
+  day?: string; // YYYY-MM-DD, server local time
+  user?: string; // tenant, "anonymous" without authentication
+  deployment?: string;
+  calls: number;
+  prompt: number;
+  completion: number;
+  reasoning: number;
+  costUSD: number;
+  latencyMs: number; // average per call
+}
+
+export interface Spend {
+  tokens: number; // prompt + completion + reasoning
+  costUSD: number;
+}
+
+// Key of the calls of jobs uploaded without an API key
+export const ANONYMOUS_KEY = "anonymous";
+
+let ledgerDir: string | null = null;
+
+// Spend per API key ID on one local day, for the daily budgets
+let spendDay = "";
+const daySpend = new Map<string, Spend>();
+
+function addSpend(record: UsageRecord): void {
+  const day = formatDay(record.at);
+  if (day !== spendDay) {
+    if (day < spendDay) return;
+    spendDay = day;
+    daySpend.clear();
+  }
+
+  const key = record.apiKeyId ?? ANONYMOUS_KEY;
+  const spend = daySpend.get(key) ?? { tokens: 0, costUSD: 0 };
+  spend.tokens += record.prompt + record.completion + record.reasoning;
+  spend.costUSD += record.costUSD;
+  daySpend.set(key, spend);
+}
+
+/**
+ * Set the directory of the ledger; records go to one JSON lines file per month.
+ * Today's records are read back so daily spend survives a restart.
+ */
+export function initUsageLedger(dir: string): void {
+  ledgerDir = dir;
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+
+  const today = formatDay(Date.now());
+  spendDay = today;
+  daySpend.clear();
+  for (const record of readUsage(today, today)) {
+    addSpend(record);
+  }
+}
+
+/**
+ * Local calendar day of a timestamp as YYYY-MM-DD
+ */
+export function formatDay(at: number): string {
+  const date = new Date(at);
+  const month = String(date.getMonth() + 1).padStart(2, "0");
+  const day = String(date.getDate()).padStart(2, "0");
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+function monthPath(month: string): string {
+  return path.join(ledgerDir!, `${month}.jsonl`);
+}
+
+/**
+ * Append a record to the ledger (only counted towards daily spend when the
+ * ledger is not initialized, e.g. when the translator is used outside the server)
+ */
+export function recordUsage(record: UsageRecord): void {
+  addSpend(record);
+  if (!ledgerDir) return;
+  try {
+    fs.appendFileSync(monthPath(formatDay(record.at).slice(0, 7)), JSON.stringify(record) + "\n");
+  } catch (e) {
+    console.error("Failed to record usage:", e);
+  }
+}
+
+/**
+ * Spend of an API key ID (ANONYMOUS_KEY for uploads without one) on the
+ * current local day, by the time of each model call
+ */
+export function dailySpend(keyId: string): Spend {
+  if (spendDay !== formatDay(Date.now())) return { tokens: 0, costUSD: 0 };
+  return { ...(daySpend.get(keyId) ?? { tokens: 0, costUSD: 0 }) };
+}
+
+/**
+ * Records of the local days from..to (YYYY-MM-DD, both inclusive), oldest first
+ */
+export function readUsage(from: string, to: string): UsageRecord[] {
+  if (!ledgerDir) {
+    throw new Error("Usage ledger not initialized");
+  }
+
+  const records: UsageRecord[] = [];
+  const months = fs
+    .readdirSync(ledgerDir)
+    .filter((name) => /^\d{4}-\d{2}\.jsonl$/.test(name))
+    .map((name) => name.slice(0, 7))
+    .filter((month) => month >= from.slice(0, 7) && month <= to.slice(0, 7))
+    .sort();
+
+  for (const month of months) {
+    for (const line of fs.readFileSync(monthPath(month), "utf8").split("\n")) {
+      if (!line.trim()) continue;
+      try {
+        const record = JSON.parse(line) as UsageRecord;
+        const day = formatDay(record.at);
+        if (day >= from && day <= to) records.push(record);
+      } catch {
+        // A crash mid-append can leave a truncated last line
+      }
+    }
+  }
+
+  return records.sort((a, b) => a.at - b.at);
+}
+
+/**
+ * Add up records per combination of the groups (one row when groupBy is empty)
+ */
+export function summarizeUsage(records: UsageRecord[], groupBy: UsageGroup[]): UsageSummary[] {
+  const rows = new Map<string, UsageSummary & { totalLatencyMs: number }>();
+
+  for (const record of records) {
+    const keys: Partial<Record<UsageGroup, string>> = {};
+    if (groupBy.includes("day")) keys.day = formatDay(record.at);
+    // Records written before tenants were recorded only know the key ID
+    if (groupBy.includes("user")) keys.user = record.tenant ?? record.apiKeyId ?? "anonymous";
+    if (groupBy.includes("deployment")) keys.deployment = record.deployment;
+
+    const key = JSON.stringify(keys);
+    let row = rows.get(key);
+    if (!row) {
+      row = {
+        ...keys,
+        calls: 0,
+        prompt: 0,
+        completion: 0,
+        reasoning: 0,
+        costUSD: 0,
+        latencyMs: 0,
+        totalLatencyMs: 0,
+      };
+      rows.set(key, row);
+    }
+
+    row.calls++;
+    row.prompt += record.prompt;
+    row.completion += record.completion;
+    row.reasoning += record.reasoning;
+    row.costUSD += record.costUSD;
+    row.totalLatencyMs += record.latencyMs;
+  }
+
+  return Array.from(rows.values())
+    .map(({ totalLatencyMs, ...row }) => ({
+      ...row,
+      latencyMs: Math.round(totalLatencyMs / row.calls),
+    }))
+    .sort((a, b) =>
+      groupBy
+        .map((group) => (a[group] ?? "").localeCompare(b[group] ?? ""))
+        .find((order) => order !== 0) ?? 0
+    );
+}
+
+function csvField(value: string | number): string {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Summary rows as CSV with a header line
+ */
+export function toUsageCsv(rows: UsageSummary[], groupBy: UsageGroup[]): string {
+  const columns = [
+    ...groupBy,
+    "calls",
+    "prompt",
+    "completion",
+    "reasoning",
+    "costUSD",
+    "latencyMs",
+  ] as (keyof UsageSummary)[];
+
+  const lines = [columns.join(",")];
+  for (const row of rows) {
+    lines.push(
+      columns
+        .map((column) =>
+          column === "costUSD" ? row.costUSD.toFixed(6) : csvField(row[column] ?? "")
+        )
+        .join(",")
+    );
+  }
+  return lines.join("\n") + "\n";
+}
@@ -0,0 +1,144 @@
+/**
+ * Validation of model responses against the requested batch
+ */
+
+import { DocxSegment } from "./docx";
+
+export type QaFlagType =
+  | "missing-translation" // never returned by the model, left untranslated
+  | "possible-merge" // translation seems to contain a neighbouring paragraph
+  | "missing-number" // number in the source is absent from the translation
+  | "missing-identifier" // standard ID (e.g. IEC 62368-1) absent from the translation
+  | "formatting-lost"; // inline tags unusable, paragraph written with the first run's formatting
+
+export interface QaFlag {
+  segmentId: number;
+  type: QaFlagType;
+  detail: string;
+}
+
+export interface BatchValidation {
+  accepted: { index: number; translated: string }[];
+  missing: DocxSegment[]; // requested but not (usefully) returned
+  unknown: unknown[]; // returned indices that were not requested
+  duplicates: number[]; // indices returned more than once (first one wins)
+}
+
+const STANDARD_ID = /\b(?:IEC|EN|UL|CSA|ISO|IEEE|ANSI|GB|JIS|CNS)\s*\d+(?:[-.:/]\d+)*/gi;
+const NUMBER = /\d+(?:[.,]\d+)*/g;
+
+/**
+ * Check the returned items against the requested segments
+ */
+export function validateBatchResponse(
+  requested: DocxSegment[],
+  translations: unknown[]
+): BatchValidation {
+  const requestedIds = new Set(requested.map((seg) => seg.id));
+  const seen = new Set<number>();
+  const result: BatchValidation = { accepted: [], missing: [], unknown: [], duplicates: [] };
+
+  for (const item of translations) {
+    const rawIndex = (item as any)?.index;
+    const translated = (item as any)?.translated;
+    // Models occasionally quote the index
+    const index =
+      typeof rawIndex === "string" && /^\d+$/.test(rawIndex) ? Number(rawIndex) : rawIndex;
+
+    if (typeof index !== "number" || !requestedIds.has(index)) {
+      result.unknown.push(index);
+      continue;
+    }
+    if (seen.has(index)) {
+      result.duplicates.push(index);
+      continue;
+    }
+    if (typeof translated !== "string" || translated.trim().length === 0) {
+      // Treated as missing so it gets re-requested
+      continue;
+    }
+
+    seen.add(index);
+    result.accepted.push({ index, translated });
+  }
+
+  result.missing = requested.filter((seg) => !seen.has(seg.id));
+  return result;
+}
+
+/**
+ * Normalize text for token comparison: full-width digits/letters to ASCII
+ * (thousands separators and spaces inside identifiers are removed per token below)
+ */
+function normalize(text: string): string {
+  return text.normalize("NFKC");
+}
+
+function standardIds(text: string): string[] {
+  return (normalize(text).match(STANDARD_ID) || []).map((id) => id.replace(/\s+/g, "").toUpperCase());
+}
+
+function numbers(text: string): string[] {
+  return (normalize(text).match(NUMBER) || []).map((n) => n.replace(/,(?=\d{3}\b)/g, ""));
+}
+
+/**
+ * Flag numbers and standard IDs that appear in the source but not the translation
+ */
+export function findSuspiciousTranslation(segment: DocxSegment): QaFlag[] {
+  const source = segment.text;
+  const translated = segment.translated ?? "";
+  const flags: QaFlag[] = [];
+  const translatedIds = new Set(standardIds(translated));
+  const translatedNumbers = new Set(numbers(translated));
+
+  const missingIds = Array.from(new Set(standardIds(source))).filter((id) => !translatedIds.has(id));
+  if (missingIds.length > 0) {
+    flags.push({ segmentId: segment.id, type: "missing-identifier", detail: missingIds.join(", ") });
+  }
+
+  // Digits that belong to a missing identifier are already reported above
+  const idDigits = new Set(missingIds.flatMap((id) => numbers(id)));
+  const missingNumbers = Array.from(new Set(numbers(source))).filter(
+    (n) => !translatedNumbers.has(n) && !idDigits.has(n)
+  );
+  if (missingNumbers.length > 0) {
+    flags.push({ segmentId: segment.id, type: "missing-number", detail: missingNumbers.join(", ") });
+  }
+
+  return flags;
+}
+
+/**
+ * Find accepted segments whose translation seems to have absorbed a missing
+ * neighbour: it contains numbers or IDs from the missing source that its own
+ * source does not have.
+ */
+export function findMergedNeighbours(
+  requested: DocxSegment[],
+  validation: BatchValidation
+): DocxSegment[] {
+  const translatedById = new Map(validation.accepted.map((a) => [a.index, a.translated]));
+  const merged: DocxSegment[] = [];
+
+  for (const missing of validation.missing) {
+    const tokens = new Set([...standardIds(missing.text), ...numbers(missing.text)]);
+    if (tokens.size === 0) continue;
+
+    const position = requested.indexOf(missing);
+    for (const neighbour of [requested[position - 1], requested[position + 1]]) {
+      const translated = neighbour && translatedById.get(neighbour.id);
+      if (!translated || merged.includes(neighbour)) continue;
+
+      const own = new Set([...standardIds(neighbour.text), ...numbers(neighbour.text)]);
+      const foreign = [...standardIds(translated), ...numbers(translated)].filter(
+        (t) => tokens.has(t) && !own.has(t)
+      );
+      if (foreign.length > 0) {
+        merged.push(neighbour);
+      }
+    }
+  }
+
+  return merged;
+}
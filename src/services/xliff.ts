@@ -0,0 +1,247 @@
+/**
+ * XLIFF 2.0 export and import of a job's segments for external CAT tools.
+ * Differently formatted runs (<rN>...</rN> in segment markup) travel as
+ * <pc id="rN"> inline codes, so reviewed files keep their run formatting.
+ */
+
+import { XMLParser, XMLBuilder } from "fast-xml-parser";
+
+import { JobState } from "../jobs";
+import {
+  DocxSegment,
+  INLINE_TAG,
+  ParsedDocx,
+  canApplyInlineMarkup,
+  stripInlineTags,
+  tagOf,
+} from "./docx";
+
+const XLIFF_NAMESPACE = "urn:oasis:names:tc:xliff:document:2.0";
+
+// Inline elements whose content is not part of the text (placeholders, markers)
+const SKIPPED_INLINE = ["ph", "sc", "ec", "cp"];
+
+type SegmentState = "initial" | "translated" | "reviewed";
+
+export interface XliffTarget {
+  text: string;
+  markup?: string; // text with <rN>...</rN> where the target has run inline codes
+}
+
+const RUN_CODE_ID = /^r(\d+)$/;
+
+// Marks where inline content goes; U+0001 cannot occur in XML text
+const INLINE_PLACEHOLDER = /\u0001(\d+)\u0001/g;
+
+function escapeXml(text: string): string {
+  return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+/**
+ * XML content of a source or target: inline tags become <pc> codes,
+ * everything else is escaped text
+ */
+function inlineXml(markup: string): string {
+  let xml = "";
+  let last = 0;
+  for (const match of markup.matchAll(INLINE_TAG)) {
+    xml += escapeXml(markup.slice(last, match.index));
+    xml += match[1] ? "</pc>" : `<pc id="r${match[2]}">`;
+    last = match.index! + match[0].length;
+  }
+  return xml + escapeXml(markup.slice(last));
+}
+
+/**
+ * Tagged form of a segment's translation, when it still matches the
+ * translation and maps onto the segment's runs
+ */
+function targetMarkup(seg: DocxSegment): string {
+  const markup = seg.translatedMarkup;
+  return markup && stripInlineTags(markup) === seg.translated && canApplyInlineMarkup(seg, markup)
+    ? markup
+    : seg.translated!;
+}
+
+/**
+ * Serialize every segment of a job as one XLIFF 2.0 unit.
+ * The unit id is the segment id, so a reviewed file maps back onto the same segments.
+ */
+export function toXliff(job: JobState, parsed: ParsedDocx): string {
+  const reviewed = new Set(job.reviewedSegmentIds ?? []);
+
+  // Sources and targets are spliced in after building: the builder would
+  // escape their inline codes and indent the mixed content
+  const inline: string[] = [];
+  const placeholder = (markup: string) => {
+    inline.push(inlineXml(markup));
+    return `\u0001${inline.length - 1}\u0001`;
+  };
+
+  const unit = parsed.segments.map((seg) => {
+    const state: SegmentState =
+      seg.translated === undefined ? "initial" : reviewed.has(seg.id) ? "reviewed" : "translated";
+    const notes = [
+      { "@_category": "partType", "#text": seg.partType },
+      ...job.qaFlags
+        .filter((f) => f.segmentId === seg.id)
+        .map((f) => ({ "@_category": "qa", "#text": `${f.type}: ${f.detail}` })),
+      ...job.glossaryViolations
+        .filter((v) => v.segmentId === seg.id)
+        .map((v) => ({ "@_category": "glossary", "#text": `${v.type}: ${v.source} -> ${v.expected}` })),
+    ];
+
+    return {
+      "@_id": String(seg.id),
+      "@_name": seg.part,
+      notes: { note: notes },
+      segment: {
+        "@_state": state,
+        source: { "@_xml:space": "preserve", "#text": placeholder(seg.markup ?? seg.text) },
+        ...(seg.translated !== undefined
+          ? { target: { "@_xml:space": "preserve", "#text": placeholder(targetMarkup(seg)) } }
+          : {}),
+      },
+    };
+  });
+
+  const builder = new XMLBuilder({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    format: true,
+  });
+
+  const body = builder.build({
+    xliff: {
+      "@_xmlns": XLIFF_NAMESPACE,
+      "@_version": "2.0",
+      "@_srcLang": job.options.sourceLang,
+      "@_trgLang": job.options.targetLang,
+      file: {
+        "@_id": "f1",
+        "@_original": job.fileName,
+        unit,
+      },
+    },
+  });
+
+  const xml = body.replace(INLINE_PLACEHOLDER, (_: string, index: string) => inline[Number(index)]);
+  return `<?xml version="1.0" encoding="UTF-8"?>\n${xml}`;
+}
+
+function childrenOf(nodes: any[], tag: string): any[] {
+  return nodes.filter((node) => tagOf(node) === tag);
+}
+
+/**
+ * Text of a source/target element, and its markup with run codes (<pc>, or
+ * <sc>/<ec> pairs with an rN id) as inline tags; other paired codes keep
+ * their content, placeholders are dropped
+ */
+function inlineOf(nodes: any[]): { text: string; markup: string } {
+  let text = "";
+  let markup = "";
+  for (const node of nodes) {
+    const tag = tagOf(node);
+    const id = String(node[":@"]?.["@_id"] ?? node[":@"]?.["@_startRef"] ?? "");
+    const run = id.match(RUN_CODE_ID)?.[1];
+    if (tag === "#text") {
+      text += String(node["#text"]);
+      markup += String(node["#text"]);
+    } else if ((tag === "sc" || tag === "ec") && run) {
+      markup += tag === "sc" ? `<r${run}>` : `</r${run}>`;
+    } else if (tag && !SKIPPED_INLINE.includes(tag) && Array.isArray(node[tag])) {
+      const inner = inlineOf(node[tag]);
+      text += inner.text;
+      markup += tag === "pc" && run ? `<r${run}>${inner.markup}</r${run}>` : inner.markup;
+    }
+  }
+  return { text, markup };
+}
+
+function sameText(a: string, b: string): boolean {
+  return a.replace(/\s+/g, " ").trim() === b.replace(/\s+/g, " ").trim();
+}
+
+/**
+ * Read the targets of a reviewed XLIFF file exported by toXliff.
+ * CAT tools may split a unit into several segments; their text is joined again.
+ * Units must match the job's segments by id and source text, otherwise the
+ * file belongs to another job and an error is thrown.
+ * Returns the translation per segment id, for units that have a target, with
+ * its markup when the target has run inline codes.
+ */
+export function readXliffTargets(parsed: ParsedDocx, xml: string): Map<number, XliffTarget> {
+  const parser = new XMLParser({
+    ignoreAttributes: false,
+    attributeNamePrefix: "@_",
+    textNodeName: "#text",
+    parseTagValue: false,
+    preserveOrder: true,
+    trimValues: false,
+  });
+  const doc: any[] = parser.parse(xml);
+
+  const root = doc.find((node) => tagOf(node) === "xliff");
+  if (!root || !String(root[":@"]?.["@_version"] ?? "").startsWith("2.")) {
+    throw new Error("Not an XLIFF 2.0 document");
+  }
+
+  const segmentsById = new Map(parsed.segments.map((seg) => [String(seg.id), seg]));
+  const targets = new Map<number, XliffTarget>();
+
+  // Units may be nested in groups
+  const units: any[] = [];
+  const collectUnits = (nodes: any[]) => {
+    for (const node of nodes) {
+      const tag = tagOf(node);
+      if (tag === "unit") units.push(node);
+      else if (tag === "file" || tag === "group") collectUnits(node[tag]);
+    }
+  };
+  collectUnits(root.xliff);
+
+  for (const unit of units) {
+    const id = String(unit[":@"]?.["@_id"] ?? "");
+    const segment = segmentsById.get(id);
+    if (!segment) {
+      throw new Error(`Unit ${id} does not match any segment of this job`);
+    }
+
+    let source = "";
+    let target = "";
+    let markup = "";
+    let hasTarget = false;
+    for (const node of unit.unit) {
+      const tag = tagOf(node);
+      if (tag !== "segment" && tag !== "ignorable") continue;
+
+      const sourceNode = childrenOf(node[tag], "source")[0];
+      const targetNode = childrenOf(node[tag], "target")[0];
+      const sourceInline = sourceNode ? inlineOf(sourceNode.source) : { text: "", markup: "" };
+      source += sourceInline.text;
+      if (targetNode) {
+        hasTarget = true;
+        const targetInline = inlineOf(targetNode.target);
+        target += targetInline.text;
+        markup += targetInline.markup;
+      } else {
+        // Untranslated parts (e.g. whitespace between segments) keep the source
+        target += sourceInline.text;
+        markup += sourceInline.markup;
+      }
+    }
+
+    if (!sameText(source, segment.text)) {
+      throw new Error(`Source text of unit ${id} does not match the job's segment`);
+    }
+    if (hasTarget && target.trim().length > 0) {
+      // Tag-like text typed into the target would make the markup ambiguous
+      const tagged = markup !== target && stripInlineTags(target) === target;
+      targets.set(segment.id, tagged ? { text: target, markup } : { text: target });
+    }
+  }
+
+  return targets;
+}
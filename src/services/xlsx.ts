@@ -0,0 +1,150 @@
+/**
+ * XLSX parsing and writing: shared strings and inline strings of worksheet
+ * cells, in the same segment model as DOCX. Numbers, formulas and their cached
+ * results, sheet names, charts and comments are left untouched.
+ */
+
+import * as fs from "fs";
+import JSZip from "jszip";
+
+import {
+  DocxPart,
+  DocxSegment,
+  ParsedDocx,
+  TextMarkup,
+  buildParagraphSegment,
+  parseXmlPart,
+  tagOf,
+  writePackage,
+} from "./docx";
+
+const SHARED_STRINGS_PART = "xl/sharedStrings.xml";
+const WORKSHEET_PATTERN = /^xl\/worksheets\/sheet(\d+)\.xml$/;
+
+const CELL_MARKUP: TextMarkup = {
+  run: "r",
+  text: "t",
+  // Phonetic guides (furigana) belong to the source text
+  skip: ["rPh", "phoneticPr"],
+};
+
+/**
+ * Call visit for every element named tag below node
+ */
+function forEachElement(node: any, tag: string, visit: (element: any) => void): void {
+  if (Array.isArray(node)) {
+    for (const item of node) {
+      forEachElement(item, tag, visit);
+    }
+    return;
+  }
+
+  const name = tagOf(node);
+  if (!name || name === "#text") return;
+  if (name === tag) {
+    visit(node);
+    return;
+  }
+  forEachElement(node[name], tag, visit);
+}
+
+/**
+ * Text of a cell's value element (<v>)
+ */
+function cellValue(cell: any[]): string | undefined {
+  const value = cell.find((item) => tagOf(item) === "v");
+  return value?.["v"]?.find((item: any) => "#text" in item)?.["#text"];
+}
+
+/**
+ * Parse an XLSX file and extract a segment per shared string used by a
+ * text cell, then per inline string cell, worksheet by worksheet
+ */
+export async function parseXlsx(filePath: string): Promise<ParsedDocx> {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+
+  if (!zip.file("xl/workbook.xml")) {
+    throw new Error("Invalid XLSX: xl/workbook.xml not found");
+  }
+
+  const worksheetPaths = Object.keys(zip.files)
+    .filter((name) => WORKSHEET_PATTERN.test(name))
+    .sort(
+      (a, b) => Number(a.match(WORKSHEET_PATTERN)![1]) - Number(b.match(WORKSHEET_PATTERN)![1])
+    );
+
+  // Shared strings are only translated where a cell shows them as text;
+  // formula cells cache their results as values, never as shared strings
+  const usedStrings = new Set<number>();
+  const inlineCells: { path: string; source: string; xml: any; cells: any[] }[] = [];
+
+  for (const worksheetPath of worksheetPaths) {
+    const source = await zip.file(worksheetPath)!.async("string");
+    const xml = parseXmlPart(source);
+    const cells: any[] = [];
+
+    forEachElement(xml, "c", (cell) => {
+      const content: any[] = cell["c"];
+      if (content.some((item) => tagOf(item) === "f")) return;
+
+      const type = cell[":@"]?.["@_t"];
+      if (type === "s") {
+        const index = Number(cellValue(content));
+        if (Number.isInteger(index)) usedStrings.add(index);
+      } else if (type === "inlineStr") {
+        const inline = content.find((item) => tagOf(item) === "is");
+        if (inline) cells.push(inline);
+      }
+    });
+
+    if (cells.length > 0) {
+      inlineCells.push({ path: worksheetPath, source, xml, cells });
+    }
+  }
+
+  const parts: DocxPart[] = [];
+  const segments: DocxSegment[] = [];
+  const counter = { id: 0 };
+
+  const sharedSource = await zip.file(SHARED_STRINGS_PART)?.async("string");
+  if (sharedSource !== undefined) {
+    const xml = parseXmlPart(sharedSource);
+    parts.push({ path: SHARED_STRINGS_PART, type: "cell", xml, source: sharedSource });
+
+    let index = 0;
+    forEachElement(xml, "si", (item) => {
+      if (usedStrings.has(index++)) {
+        const segment = buildParagraphSegment(item, CELL_MARKUP, {
+          part: SHARED_STRINGS_PART,
+          partType: "cell",
+          counter,
+        });
+        if (segment) segments.push(segment);
+      }
+    });
+  }
+
+  for (const { path: worksheetPath, source, xml, cells } of inlineCells) {
+    parts.push({ path: worksheetPath, type: "cell", xml, source });
+    for (const cell of cells) {
+      const segment = buildParagraphSegment(cell, CELL_MARKUP, {
+        part: worksheetPath,
+        partType: "cell",
+        counter,
+      });
+      if (segment) segments.push(segment);
+    }
+  }
+
+  console.log(`Parsed XLSX: found ${segments.length} text cell segments in ${parts.length} parts`);
+
+  return { zip, parts, segments, partTypes: [] };
+}
+
+/**
+ * Write translated segments back to XLSX
+ */
+export async function writeXlsx(parsed: ParsedDocx, outputPath: string): Promise<void> {
+  await writePackage(parsed, outputPath);
+  console.log(`Wrote translated XLSX: ${outputPath}`);
+}
@@ -0,0 +1,98 @@
+/**
+ * Budget caps per job and per API key per day
+ */
+import "./helpers";
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { createJob, JobOptions } from "../src/jobs";
+import { apiKeyId, checkBudget } from "../src/services/budget";
+import { UsageRecord, dailySpend, recordUsage } from "../src/services/usage";
+
+const options: JobOptions = {
+  sourceLang: "en",
+  targetLang: "zh-TW",
+  glossaryIds: [],
+  useMemory: false,
+  partTypes: [],
+  inlineTags: true,
+  outputVariants: [],
+  translationStyle: { italic: false },
+  layoutMode: "flag",
+  review: false,
+  engine: "mock",
+  converter: "text",
+  outputFormat: "docx",
+  confirmEstimate: false,
+  budget: {},
+};
+
+test("pauses a job over its own token budget until the overrun is approved", () => {
+  const job = createJob("budget-job", "budget.docx", { ...options, budget: { maxTokens: 100 } });
+
+  job.usage = { prompt: 60, completion: 40, reasoning: 0 };
+  assert.doesNotThrow(() => checkBudget(job));
+
+  job.usage.reasoning = 1;
+  assert.throws(() => checkBudget(job), { name: "BudgetExceededError", scope: "job" });
+
+  job.budgetApproved = true;
+  assert.doesNotThrow(() => checkBudget(job));
+});
+
+function call(jobId: string, keyId: string | undefined, tokens: number, at = Date.now()): UsageRecord {
+  return {
+    at,
+    jobId,
+    apiKeyId: keyId,
+    engine: "mock",
+    deployment: "mock",
+    prompt: tokens,
+    completion: 0,
+    reasoning: 0,
+    costUSD: 0,
+    latencyMs: 10,
+  };
+}
+
+test("adds up the model calls of an API key today for its daily budget", () => {
+  process.env.API_KEY_DAILY_MAX_TOKENS = "150";
+  try {
+    const keyId = apiKeyId("secret-key");
+    assert.notEqual(keyId, "secret-key");
+
+    // Created before midnight, but spending today
+    const job = createJob("daily-job", "daily.docx", options);
+    job.createdAt = Date.now() - 2 * 24 * 60 * 60 * 1000;
+    job.apiKeyId = keyId;
+
+    recordUsage(call("yesterday", keyId, 1000, Date.now() - 24 * 60 * 60 * 1000));
+    recordUsage(call("other", apiKeyId("other-key"), 1000));
+    recordUsage(call("daily-job", keyId, 100));
+    assert.doesNotThrow(() => checkBudget(job));
+
+    recordUsage(call("daily-job", keyId, 60));
+    assert.equal(dailySpend(keyId).tokens, 160);
+    assert.throws(() => checkBudget(job), /API key daily used 160 tokens/);
+
+    // Approving an overrun lifts the job's own budget, not the daily one
+    job.budgetApproved = true;
+    assert.throws(() => checkBudget(job), { name: "BudgetExceededError", scope: "daily" });
+  } finally {
+    process.env.API_KEY_DAILY_MAX_TOKENS = "0";
+  }
+});
+
+test("counts jobs without an API key against one shared daily budget", () => {
+  process.env.API_KEY_DAILY_MAX_TOKENS = "100";
+  try {
+    const job = createJob("anonymous-job", "anonymous.docx", options);
+    assert.doesNotThrow(() => checkBudget(job));
+
+    recordUsage(call("another-anonymous-job", undefined, 101));
+    assert.throws(() => checkBudget(job), /API key daily used 101 tokens/);
+  } finally {
+    process.env.API_KEY_DAILY_MAX_TOKENS = "0";
+  }
+});
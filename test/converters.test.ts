@@ -0,0 +1,137 @@
+/**
+ * PDF converter selection, the built-in text converter and PDF font setup
+ */
+import { TEST_DIR, writeFixture, p } from "./helpers";
+
+import { test, afterEach } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import PDFDocument from "pdfkit";
+import JSZip from "jszip";
+
+import { resolveConverter, setEastAsiaFont } from "../src/services/converters";
+import { parseDocx } from "../src/services/docx";
+
+const env = { ...process.env };
+
+afterEach(() => {
+  process.env = { ...env };
+});
+
+function writePdf(name: string, draw: (doc: PDFKit.PDFDocument) => void): Promise<string> {
+  const filePath = path.join(TEST_DIR, name);
+  const doc = new PDFDocument();
+  const stream = fs.createWriteStream(filePath);
+  doc.pipe(stream);
+  draw(doc);
+  doc.end();
+  return new Promise((resolve, reject) => {
+    stream.on("finish", () => resolve(filePath));
+    stream.on("error", reject);
+  });
+}
+
+test("text converter turns PDF text into one paragraph per block", async () => {
+  const pdf = await writePdf("text.pdf", (doc) => {
+    doc.fontSize(16).text("Installation guide", 72, 72);
+    doc
+      .fontSize(11)
+      .text(
+        "Mount the unit on a flat surface and connect the supply cable before switching on the (main) breaker.",
+        72,
+        140,
+        { width: 200 }
+      );
+    doc.addPage().text("Warranty – see “Terms”.");
+  });
+  const output = path.join(TEST_DIR, "text.docx");
+
+  await resolveConverter("text").convert(pdf, output);
+
+  const parsed = await parseDocx(output);
+  assert.deepEqual(
+    parsed.segments.map((seg) => seg.text),
+    [
+      "Installation guide",
+      "Mount the unit on a flat surface and connect the supply cable before switching on the (main) breaker.",
+      "Warranty – see “Terms”.",
+    ]
+  );
+});
+
+test("text converter rejects PDFs without extractable text", async () => {
+  const pdf = await writePdf("empty.pdf", (doc) => doc.rect(72, 72, 100, 100).stroke());
+
+  await assert.rejects(
+    resolveConverter("text").convert(pdf, path.join(TEST_DIR, "empty.docx")),
+    /No extractable text/
+  );
+});
+
+test("adobe is used only with credentials and falls back to a local converter", () => {
+  process.env.LIBREOFFICE_PATH = path.join(TEST_DIR, "missing-soffice");
+
+  delete process.env.PDF_SERVICES_CLIENT_ID;
+  delete process.env.PDF_SERVICES_CLIENT_SECRET;
+  assert.equal(resolveConverter("adobe").name, "text");
+
+  process.env.PDF_SERVICES_CLIENT_ID = "id";
+  process.env.PDF_SERVICES_CLIENT_SECRET = "secret";
+  assert.equal(resolveConverter("adobe").name, "adobe");
+});
+
+test("local converters never fall back to the cloud", () => {
+  process.env.PDF_SERVICES_CLIENT_ID = "id";
+  process.env.PDF_SERVICES_CLIENT_SECRET = "secret";
+
+  assert.equal(resolveConverter("libreoffice").name, "libreoffice");
+  assert.equal(resolveConverter("text").name, "text");
+});
+
+test("PDF_CONVERTER picks the default converter", () => {
+  process.env.PDF_CONVERTER = "text";
+  assert.equal(resolveConverter().name, "text");
+});
+
+test("setEastAsiaFont replaces the theme font in the document defaults", async () => {
+  const zip = await JSZip.loadAsync(
+    fs.readFileSync(await writeFixture("fonts.docx", { body: p("Hello") }))
+  );
+  zip.file(
+    "word/styles.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:styles xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:asciiTheme="minorHAnsi" w:eastAsiaTheme="minorEastAsia"/><w:sz w:val="22"/></w:rPr></w:rPrDefault></w:docDefaults><w:style w:type="paragraph" w:styleId="Normal"/></w:styles>`
+  );
+
+  await setEastAsiaFont(zip, "Noto Sans CJK TC");
+
+  const styles = await zip.file("word/styles.xml")!.async("string");
+  assert.match(
+    styles,
+    /<w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:asciiTheme="minorHAnsi" w:eastAsia="Noto Sans CJK TC">/
+  );
+  assert.doesNotMatch(styles, /eastAsiaTheme/);
+  assert.match(styles, /<w:sz w:val="22">.*<w:style w:type="paragraph" w:styleId="Normal">/);
+});
+
+test("setEastAsiaFont adds a styles part when the package has none", async () => {
+  const zip = await JSZip.loadAsync(
+    fs.readFileSync(await writeFixture("no-styles.docx", { body: p("Hello") }))
+  );
+
+  await setEastAsiaFont(zip, "Noto Sans CJK JP");
+
+  assert.match(
+    await zip.file("word/styles.xml")!.async("string"),
+    /<w:styles [^>]*><w:docDefaults><w:rPrDefault><w:rPr><w:rFonts w:eastAsia="Noto Sans CJK JP">/
+  );
+  assert.match(
+    await zip.file("[Content_Types].xml")!.async("string"),
+    /PartName="\/word\/styles.xml"/
+  );
+  assert.match(
+    await zip.file("word/_rels/document.xml.rels")!.async("string"),
+    /relationships\/styles" Target="styles.xml"/
+  );
+});
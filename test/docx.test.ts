@@ -0,0 +1,195 @@
+/**
+ * DOCX parse/write round trips
+ */
+import { TEST_DIR, writeFixture, readPartTexts, p, r, table } from "./helpers";
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+
+import { parseDocx, writeDocx, stripInlineTags } from "../src/services/docx";
+
+const fixture = {
+  body:
+    p("Intro paragraph") +
+    table([
+      ["A1 cell", "B1 cell"],
+      ["A2 cell", "B2 cell"],
+    ]) +
+    `<w:p>${r("Press ")}${r("Start", "<w:b/>")}${r(" now")}</w:p>` +
+    `<w:p>${r("Hello")}${r(" ")}${r("world")}</w:p>` +
+    `<w:p>${r("   ")}</w:p>`,
+  header: p("Header text"),
+};
+
+test("extracts body, table cell and header paragraphs in document order", async () => {
+  const parsed = await parseDocx(await writeFixture("extract.docx", fixture));
+
+  assert.deepEqual(
+    parsed.segments.map((seg) => [seg.partType, seg.text]),
+    [
+      ["body", "Intro paragraph"],
+      ["body", "A1 cell"],
+      ["body", "B1 cell"],
+      ["body", "A2 cell"],
+      ["body", "B2 cell"],
+      ["body", "Press Start now"],
+      ["body", "Hello world"],
+      ["header", "Header text"],
+    ]
+  );
+  assert.equal(parsed.segments[1].container?.type, "cell");
+});
+
+test("leaves headers out when only the body is requested", async () => {
+  const parsed = await parseDocx(await writeFixture("body-only.docx", fixture), { partTypes: [] });
+
+  assert.ok(parsed.segments.every((seg) => seg.partType === "body"));
+  assert.equal(parsed.parts.length, 1);
+});
+
+test("writes an untranslated document back unchanged", async () => {
+  const input = await writeFixture("unchanged.docx", fixture);
+  const output = path.join(TEST_DIR, "unchanged-out.docx");
+
+  await writeDocx(await parseDocx(input), output);
+
+  assert.deepEqual(await readPartTexts(output), await readPartTexts(input));
+  assert.deepEqual(
+    await readPartTexts(output, "word/header1.xml"),
+    await readPartTexts(input, "word/header1.xml")
+  );
+});
+
+test("writes translations into paragraphs, table cells and headers", async () => {
+  const parsed = await parseDocx(await writeFixture("translated.docx", fixture));
+  for (const seg of parsed.segments) {
+    seg.translated = `T-${seg.text}`;
+  }
+  const output = path.join(TEST_DIR, "translated-out.docx");
+
+  await writeDocx(parsed, output);
+
+  const texts = await readPartTexts(output);
+  for (const cell of ["A1 cell", "B1 cell", "A2 cell", "B2 cell"]) {
+    assert.ok(texts.includes(`T-${cell}`), `missing translated cell ${cell}`);
+  }
+  assert.deepEqual(await readPartTexts(output, "word/header1.xml"), ["T-Header text"]);
+
+  // Spacer runs survive the translation, see the whitespace test below
+  const reparsed = await parseDocx(output);
+  assert.deepEqual(
+    reparsed.segments.map((seg) => seg.text.trim()),
+    parsed.segments.map((seg) => seg.translated)
+  );
+});
+
+test("keeps run formatting of multi-run paragraphs through inline tags", async () => {
+  const parsed = await parseDocx(await writeFixture("runs.docx", fixture));
+  const segment = parsed.segments.find((seg) => seg.text === "Press Start now")!;
+  assert.equal(segment.markup, "Press <r1>Start</r1> now");
+
+  segment.translatedMarkup = "按<r1>開始</r1>鍵";
+  segment.translated = stripInlineTags(segment.translatedMarkup);
+  const output = path.join(TEST_DIR, "runs-out.docx");
+  await writeDocx(parsed, output);
+
+  const texts = await readPartTexts(output);
+  const start = texts.indexOf("按");
+  assert.deepEqual(texts.slice(start, start + 3), ["按", "開始", "鍵"]);
+
+  // The bold run still carries the tagged text
+  const reparsed = await parseDocx(output);
+  assert.equal(reparsed.segments.find((seg) => seg.text === "按開始鍵")?.markup, "按<r1>開始</r1>鍵");
+});
+
+test("falls back to the first run when the tagged translation is unusable", async () => {
+  const parsed = await parseDocx(await writeFixture("runs-fallback.docx", fixture));
+  const segment = parsed.segments.find((seg) => seg.text === "Press Start now")!;
+  segment.translated = "按開始鍵";
+  const output = path.join(TEST_DIR, "runs-fallback-out.docx");
+
+  await writeDocx(parsed, output);
+
+  const reparsed = await parseDocx(output);
+  assert.ok(reparsed.segments.some((seg) => seg.text === "按開始鍵"));
+});
+
+test("preserves whitespace-only runs and paragraphs", async () => {
+  const parsed = await parseDocx(await writeFixture("whitespace.docx", fixture));
+  const segment = parsed.segments.find((seg) => seg.text === "Hello world")!;
+  segment.translated = "你好世界";
+  const output = path.join(TEST_DIR, "whitespace-out.docx");
+
+  await writeDocx(parsed, output);
+
+  const texts = await readPartTexts(output);
+  const hello = texts.indexOf("你好世界");
+  // Translation goes to the first content run, the spacer run is kept, the last run is emptied
+  assert.deepEqual(texts.slice(hello, hello + 3), ["你好世界", " ", ""]);
+  // The whitespace-only paragraph is not a segment and stays as it was
+  assert.equal(texts[texts.length - 1], "   ");
+});
+
+test("translates a text box once and writes it into both AlternateContent copies", async () => {
+  const box = `<w:txbxContent>${p("Box text")}</w:txbxContent>`;
+  const input = await writeFixture("textbox.docx", {
+    body:
+      p("Body text") +
+      `<w:p><w:r><mc:AlternateContent>` +
+      `<mc:Choice Requires="wps"><w:drawing><wp:anchor><wp:extent cx="914400" cy="457200"/>` +
+      `<a:graphic><a:graphicData><wps:wsp><wps:txbx>${box}</wps:txbx></wps:wsp></a:graphicData></a:graphic>` +
+      `</wp:anchor></w:drawing></mc:Choice>` +
+      `<mc:Fallback><w:pict><v:shape style="width:72pt;height:36pt"><v:textbox>${box}</v:textbox></v:shape></w:pict></mc:Fallback>` +
+      `</mc:AlternateContent></w:r></w:p>`,
+  });
+  const output = path.join(TEST_DIR, "textbox-out.docx");
+
+  const parsed = await parseDocx(input);
+  assert.deepEqual(
+    parsed.segments.map((seg) => [seg.partType, seg.text]),
+    [
+      ["body", "Body text"],
+      ["textbox", "Box text"],
+    ]
+  );
+  assert.equal(parsed.segments[1].container?.type, "textbox");
+
+  parsed.segments[1].translated = "文字方塊";
+  await writeDocx(parsed, output);
+  assert.deepEqual(await readPartTexts(output), ["Body text", "文字方塊", "文字方塊"]);
+});
+
+test("extracts and writes footnotes and comments as their own part types", async () => {
+  const w = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+  const input = await writeFixture("notes.docx", {
+    body: p("Body text"),
+    parts: {
+      "word/footnotes.xml": `<w:footnotes ${w}><w:footnote w:id="1">${p("Footnote text")}</w:footnote></w:footnotes>`,
+      "word/comments.xml": `<w:comments ${w}><w:comment w:id="0">${p("Comment text")}</w:comment></w:comments>`,
+    },
+  });
+  const output = path.join(TEST_DIR, "notes-out.docx");
+
+  const parsed = await parseDocx(input);
+  assert.deepEqual(
+    parsed.segments.map((seg) => [seg.partType, seg.text]),
+    [
+      ["body", "Body text"],
+      ["footnote", "Footnote text"],
+      ["comment", "Comment text"],
+    ]
+  );
+
+  parsed.segments[1].translated = "註腳";
+  parsed.segments[2].translated = "註解";
+  await writeDocx(parsed, output);
+  assert.deepEqual(await readPartTexts(output, "word/comments.xml"), ["註解"]);
+  assert.deepEqual(await readPartTexts(output, "word/footnotes.xml"), ["註腳"]);
+
+  const footnotesOnly = await parseDocx(input, { partTypes: ["footnote"] });
+  assert.deepEqual(
+    footnotesOnly.segments.map((seg) => seg.partType),
+    ["body", "footnote"]
+  );
+});
@@ -0,0 +1,293 @@
+/**
+ * Shared test setup: offline configuration and DOCX fixtures.
+ * Import this first so the environment is set before any source module reads it.
+ */
+import JSZip from "jszip";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+export const TEST_DIR = fs.mkdtempSync(path.join(os.tmpdir(), "word-trans-test-"));
+process.on("exit", () => fs.rmSync(TEST_DIR, { recursive: true, force: true }));
+
+// Nothing is written into the repository: every directory lives under TEST_DIR
+process.env.DATA_DIR = path.join(TEST_DIR, "data");
+process.env.UPLOAD_DIR = path.join(TEST_DIR, "uploads");
+process.env.WORK_DIR = path.join(TEST_DIR, "work");
+process.env.OUTPUT_DIR = path.join(TEST_DIR, "output");
+process.env.TRANSLATION_ENGINE = "mock";
+process.env.JOB_STORE = "memory";
+process.env.TM_ENABLED = "false";
+process.env.INLINE_TAGS = "true";
+process.env.REVIEW_ENABLED = "false";
+process.env.CONFIRM_ESTIMATE = "false";
+process.env.JOB_MAX_COST_USD = "0";
+process.env.JOB_MAX_TOKENS = "0";
+process.env.API_KEY_DAILY_MAX_COST_USD = "0";
+process.env.API_KEY_DAILY_MAX_TOKENS = "0";
+process.env.API_KEYS = "";
+process.env.ADMIN_API_KEYS = "";
+process.env.OUTPUT_VARIANTS = "";
+process.env.LAYOUT_MODE = "flag";
+process.env.RETRY_BASE_DELAY_MS = "1";
+
+const W_NAMESPACE = "http://schemas.openxmlformats.org/wordprocessingml/2006/main";
+const R_NAMESPACE = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * Paragraph with one plain run
+ */
+export function p(text: string): string {
+  return `<w:p><w:r><w:t xml:space="preserve">${text}</w:t></w:r></w:p>`;
+}
+
+/**
+ * Run with optional run properties, e.g. r("bold", "<w:b/>")
+ */
+export function r(text: string, rPr = ""): string {
+  return `<w:r>${rPr ? `<w:rPr>${rPr}</w:rPr>` : ""}<w:t xml:space="preserve">${text}</w:t></w:r>`;
+}
+
+/**
+ * Table with one paragraph per cell
+ */
+export function table(rows: string[][]): string {
+  const tr = rows.map((cells) => `<w:tr>${cells.map((c) => `<w:tc>${p(c)}</w:tc>`).join("")}</w:tr>`);
+  return `<w:tbl><w:tblPr/>${tr.join("")}</w:tbl>`;
+}
+
+export interface DocxFixture {
+  body: string; // inner XML of w:body
+  header?: string; // inner XML of word/header1.xml
+  parts?: Record<string, string>; // further parts by zip path, e.g. word/footnotes.xml
+}
+
+/**
+ * Write a minimal DOCX package and return its path
+ */
+export async function writeFixture(name: string, fixture: DocxFixture): Promise<string> {
+  const zip = new JSZip();
+  const header = fixture.header !== undefined;
+
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">
+  <Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>
+  <Default Extension="xml" ContentType="application/xml"/>
+  <Override PartName="/word/document.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.document.main+xml"/>
+  ${header ? '<Override PartName="/word/header1.xml" ContentType="application/vnd.openxmlformats-officedocument.wordprocessingml.header+xml"/>' : ""}
+</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  <Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/officeDocument" Target="word/document.xml"/>
+</Relationships>`
+  );
+  zip.file(
+    "word/_rels/document.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">
+  ${header ? '<Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/header" Target="header1.xml"/>' : ""}
+</Relationships>`
+  );
+
+  const sectPr = header
+    ? `<w:sectPr><w:headerReference w:type="default" r:id="rId1"/></w:sectPr>`
+    : "<w:sectPr/>";
+  zip.file(
+    "word/document.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:document xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}"><w:body>${fixture.body}${sectPr}</w:body></w:document>`
+  );
+  if (header) {
+    zip.file(
+      "word/header1.xml",
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<w:hdr xmlns:w="${W_NAMESPACE}" xmlns:r="${R_NAMESPACE}">${fixture.header}</w:hdr>`
+    );
+  }
+
+  for (const [partPath, xml] of Object.entries(fixture.parts ?? {})) {
+    zip.file(partPath, `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n${xml}`);
+  }
+
+  const filePath = path.join(TEST_DIR, name);
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: "nodebuffer" }));
+  return filePath;
+}
+
+/**
+ * Text of every w:t element in a package part, in document order
+ */
+export async function readPartTexts(filePath: string, part = "word/document.xml"): Promise<string[]> {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+  const xml = (await zip.file(part)?.async("string")) ?? "";
+  return Array.from(xml.matchAll(/<w:t(?:\s[^>]*)?>([^<]*)<\/w:t>/g), (m) => m[1]);
+}
+
+const A_NAMESPACE = "http://schemas.openxmlformats.org/drawingml/2006/main";
+const P_NAMESPACE = "http://schemas.openxmlformats.org/presentationml/2006/main";
+const REL_TYPES = "http://schemas.openxmlformats.org/officeDocument/2006/relationships";
+
+/**
+ * DrawingML paragraph; runs as [text, rPr attributes] pairs or one plain text
+ */
+export function ap(...runs: (string | [string, string])[]): string {
+  const xml = runs.map((run) => {
+    const [text, attrs] = typeof run === "string" ? [run, ""] : run;
+    return `<a:r><a:rPr lang="en-US"${attrs ? ` ${attrs}` : ""}/><a:t>${text}</a:t></a:r>`;
+  });
+  return `<a:p>${xml.join("")}</a:p>`;
+}
+
+/**
+ * Slide shape holding the given paragraphs
+ */
+export function sp(paragraphs: string): string {
+  return `<p:sp><p:nvSpPr><p:cNvPr id="2" name="Text"/><p:cNvSpPr/><p:nvPr/></p:nvSpPr><p:spPr/><p:txBody><a:bodyPr/>${paragraphs}</p:txBody></p:sp>`;
+}
+
+export interface PptxSlide {
+  shapes: string; // inner XML of p:spTree
+  notes?: string; // inner XML of the notes slide's p:spTree
+}
+
+/**
+ * Write a minimal PPTX package and return its path.
+ * Slides are stored as slide1.xml, slide2.xml, ... and shown in `order` (indexes into slides).
+ */
+export async function writePptxFixture(
+  name: string,
+  slides: PptxSlide[],
+  order = slides.map((_, i) => i)
+): Promise<string> {
+  const zip = new JSZip();
+  const ns = `xmlns:a="${A_NAMESPACE}" xmlns:p="${P_NAMESPACE}" xmlns:r="${R_NAMESPACE}"`;
+  const tree = (shapes: string) =>
+    `<p:cSld><p:spTree><p:nvGrpSpPr><p:cNvPr id="1" name=""/><p:cNvGrpSpPr/><p:nvPr/></p:nvGrpSpPr><p:grpSpPr/>${shapes}</p:spTree></p:cSld>`;
+
+  const overrides = slides.flatMap((slide, i) => [
+    `<Override PartName="/ppt/slides/slide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.slide+xml"/>`,
+    slide.notes !== undefined
+      ? `<Override PartName="/ppt/notesSlides/notesSlide${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.notesSlide+xml"/>`
+      : "",
+  ]);
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/ppt/presentation.xml" ContentType="application/vnd.openxmlformats-officedocument.presentationml.presentation.main+xml"/>${overrides.join("")}</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_TYPES}/officeDocument" Target="ppt/presentation.xml"/></Relationships>`
+  );
+
+  const sldIds = order.map((index, i) => `<p:sldId id="${256 + i}" r:id="rId${index + 1}"/>`);
+  zip.file(
+    "ppt/presentation.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:presentation ${ns}><p:sldIdLst>${sldIds.join("")}</p:sldIdLst></p:presentation>`
+  );
+  zip.file(
+    "ppt/_rels/presentation.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${slides
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_TYPES}/slide" Target="slides/slide${i + 1}.xml"/>`)
+      .join("")}</Relationships>`
+  );
+
+  slides.forEach((slide, i) => {
+    zip.file(
+      `ppt/slides/slide${i + 1}.xml`,
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:sld ${ns}>${tree(slide.shapes)}</p:sld>`
+    );
+    if (slide.notes === undefined) return;
+    zip.file(
+      `ppt/slides/_rels/slide${i + 1}.xml.rels`,
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId2" Type="${REL_TYPES}/notesSlide" Target="../notesSlides/notesSlide${i + 1}.xml"/></Relationships>`
+    );
+    zip.file(
+      `ppt/notesSlides/notesSlide${i + 1}.xml`,
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<p:notes ${ns}>${tree(slide.notes)}</p:notes>`
+    );
+  });
+
+  const filePath = path.join(TEST_DIR, name);
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: "nodebuffer" }));
+  return filePath;
+}
+
+export interface XlsxFixture {
+  sharedStrings: string[]; // inner XML of each si
+  sheets: string[]; // inner XML of each sheet's sheetData
+}
+
+/**
+ * Write a minimal XLSX package and return its path
+ */
+export async function writeXlsxFixture(name: string, fixture: XlsxFixture): Promise<string> {
+  const zip = new JSZip();
+  const ns = `xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main" xmlns:r="${R_NAMESPACE}"`;
+
+  zip.file(
+    "[Content_Types].xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"><Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/><Default Extension="xml" ContentType="application/xml"/><Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/><Override PartName="/xl/sharedStrings.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sharedStrings+xml"/>${fixture.sheets
+      .map((_, i) => `<Override PartName="/xl/worksheets/sheet${i + 1}.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+      .join("")}</Types>`
+  );
+  zip.file(
+    "_rels/.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="${REL_TYPES}/officeDocument" Target="xl/workbook.xml"/></Relationships>`
+  );
+  zip.file(
+    "xl/workbook.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<workbook ${ns}><sheets>${fixture.sheets
+      .map((_, i) => `<sheet name="Sheet${i + 1}" sheetId="${i + 1}" r:id="rId${i + 1}"/>`)
+      .join("")}</sheets></workbook>`
+  );
+  zip.file(
+    "xl/_rels/workbook.xml.rels",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships">${fixture.sheets
+      .map((_, i) => `<Relationship Id="rId${i + 1}" Type="${REL_TYPES}/worksheet" Target="worksheets/sheet${i + 1}.xml"/>`)
+      .join("")}<Relationship Id="rIdStrings" Type="${REL_TYPES}/sharedStrings" Target="sharedStrings.xml"/></Relationships>`
+  );
+  zip.file(
+    "xl/sharedStrings.xml",
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<sst ${ns} count="${fixture.sharedStrings.length}" uniqueCount="${fixture.sharedStrings.length}">${fixture.sharedStrings
+      .map((si) => `<si>${si}</si>`)
+      .join("")}</sst>`
+  );
+  fixture.sheets.forEach((sheetData, i) => {
+    zip.file(
+      `xl/worksheets/sheet${i + 1}.xml`,
+      `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<worksheet ${ns}><sheetData>${sheetData}</sheetData></worksheet>`
+    );
+  });
+
+  const filePath = path.join(TEST_DIR, name);
+  fs.writeFileSync(filePath, await zip.generateAsync({ type: "nodebuffer" }));
+  return filePath;
+}
+
+/**
+ * Text of every element named `tag` in a package part, in document order
+ */
+export async function readElementTexts(filePath: string, part: string, tag: string): Promise<string[]> {
+  const zip = await JSZip.loadAsync(fs.readFileSync(filePath));
+  const xml = (await zip.file(part)?.async("string")) ?? "";
+  const pattern = new RegExp(`<${tag}(?:\\s[^>]*)?>([^<]*)</${tag}>`, "g");
+  return Array.from(xml.matchAll(pattern), (m) => m[1]);
+}
@@ -0,0 +1,61 @@
+/**
+ * Server-side job queue: concurrency limit, positions and removal
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+
+import { JobQueue } from "../src/jobQueue";
+
+test("runs at most maxConcurrent jobs and starts the next as one finishes", async () => {
+  const finish: Record<string, () => void> = {};
+  const started: string[] = [];
+  const positions: string[][] = [];
+  const queue = new JobQueue(2, (waitingIds) => positions.push(waitingIds));
+
+  for (const id of ["a", "b", "c", "d"]) {
+    queue.enqueue(id, () => {
+      started.push(id);
+      return new Promise<void>((resolve) => (finish[id] = resolve));
+    });
+  }
+
+  assert.deepEqual(started, ["a", "b"]);
+  assert.equal(queue.position("a"), undefined);
+  assert.equal(queue.position("c"), 1);
+  assert.equal(queue.position("d"), 2);
+
+  finish.a();
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.deepEqual(started, ["a", "b", "c"]);
+  assert.equal(queue.position("d"), 1);
+  assert.deepEqual(positions[positions.length - 1], ["d"]);
+});
+
+test("drops a waiting job and keeps going after a failed one", async () => {
+  const started: string[] = [];
+  const queue = new JobQueue(1);
+
+  queue.enqueue("failing", async () => {
+    started.push("failing");
+    throw new Error("boom");
+  });
+  queue.enqueue("removed", async () => {
+    started.push("removed");
+  });
+  queue.enqueue("last", async () => {
+    started.push("last");
+  });
+
+  assert.equal(queue.remove("removed"), true);
+  assert.equal(queue.remove("removed"), false);
+  await new Promise((resolve) => setImmediate(resolve));
+
+  assert.deepEqual(started, ["failing", "last"]);
+});
+
+test("refuses a queue without slots", () => {
+  for (const maxConcurrent of [0, -1, NaN, 1.5]) {
+    assert.throws(() => new JobQueue(maxConcurrent), RangeError);
+  }
+});
@@ -0,0 +1,81 @@
+/**
+ * PPTX extraction and write-back of slides and speaker notes
+ */
+import { TEST_DIR, writePptxFixture, readElementTexts, ap, sp } from "./helpers";
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+
+import { parsePptx, writePptx } from "../src/services/pptx";
+
+function deck(name: string): Promise<string> {
+  return writePptxFixture(
+    name,
+    [
+      {
+        shapes:
+          sp(ap("Safety instructions")) +
+          sp(
+            ap("Read all ", ["warnings", 'b="1"'], " first.") +
+            '<a:p><a:fld id="{1}" type="slidenum"><a:t>1</a:t></a:fld></a:p>'
+          ),
+        notes: sp(ap("Mention the fuse rating.")),
+      },
+      {
+        shapes: `<p:graphicFrame><a:graphic><a:graphicData><a:tbl><a:tr><a:tc><a:txBody><a:bodyPr/>${ap("Rated voltage")}</a:txBody></a:tc></a:tr></a:tbl></a:graphicData></a:graphic></p:graphicFrame>`,
+      },
+    ],
+    // The table slide is shown first
+    [1, 0]
+  );
+}
+
+test("extracts slides in presentation order with their notes", async () => {
+  const parsed = await parsePptx(await deck("order.pptx"));
+
+  assert.deepEqual(
+    parsed.segments.map((seg) => [seg.partType, seg.part, seg.text]),
+    [
+      ["slide", "ppt/slides/slide2.xml", "Rated voltage"],
+      ["slide", "ppt/slides/slide1.xml", "Safety instructions"],
+      ["slide", "ppt/slides/slide1.xml", "Read all warnings first."],
+      ["notes", "ppt/notesSlides/notesSlide1.xml", "Mention the fuse rating."],
+    ]
+  );
+  // Differently formatted runs get inline tags; language attributes do not count
+  assert.equal(parsed.segments[2].markup, "Read all <r1>warnings</r1> first.");
+  assert.equal(parsed.segments[1].markup, undefined);
+});
+
+test("leaves speaker notes out when not requested", async () => {
+  const parsed = await parsePptx(await deck("no-notes.pptx"), { partTypes: [] });
+
+  assert.ok(parsed.segments.every((seg) => seg.partType === "slide"));
+  assert.ok(!parsed.parts.some((part) => part.type === "notes"));
+});
+
+test("writes translations back into slides and notes", async () => {
+  const parsed = await parsePptx(await deck("translate.pptx"));
+  const [table, title, body, notes] = parsed.segments;
+  table.translated = "額定電壓";
+  title.translated = "安全說明";
+  body.translated = "請先閱讀所有警告。";
+  body.translatedMarkup = "請先閱讀所有<r1>警告</r1>。";
+  notes.translated = "說明保險絲額定值。";
+
+  const output = path.join(TEST_DIR, "translate-out.pptx");
+  await writePptx(parsed, output);
+
+  assert.deepEqual(await readElementTexts(output, "ppt/slides/slide1.xml", "a:t"), [
+    "安全說明",
+    "請先閱讀所有",
+    "警告",
+    "。",
+    "1",
+  ]);
+  assert.deepEqual(await readElementTexts(output, "ppt/slides/slide2.xml", "a:t"), ["額定電壓"]);
+  assert.deepEqual(await readElementTexts(output, "ppt/notesSlides/notesSlide1.xml", "a:t"), [
+    "說明保險絲額定值。",
+  ]);
+});
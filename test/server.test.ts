@@ -0,0 +1,732 @@
+/**
+ * Upload -> status -> download flow through the Express app, fully offline
+ */
+import {
+  TEST_DIR,
+  writeFixture,
+  writeXlsxFixture,
+  readPartTexts,
+  readElementTexts,
+  p,
+  r,
+  table,
+} from "./helpers";
+
+import { test, before, after, mock } from "node:test";
+import assert from "node:assert/strict";
+import * as fs from "fs";
+import * as path from "path";
+import { AddressInfo } from "net";
+import { Server } from "http";
+import JSZip from "jszip";
+
+import * as adobe from "../src/services/adobe";
+import * as converters from "../src/services/converters";
+import * as engines from "../src/services/engines";
+import app from "../src/server";
+
+const FINAL_STATUSES = ["done", "error", "cancelled", "review"];
+
+let server: Server;
+let baseUrl: string;
+let docxFixture: string;
+
+before(async () => {
+  docxFixture = await writeFixture("upload.docx", {
+    body: p("Hello, this is a test document.") + table([["Rated voltage", "230 V"]]),
+    header: p("Confidential"),
+  });
+
+  // Fake PDF conversion: every PDF "converts" to the DOCX fixture
+  process.env.PDF_SERVICES_CLIENT_ID = "test";
+  process.env.PDF_SERVICES_CLIENT_SECRET = "test";
+  mock.method(adobe, "convertPdfToDocx", async (inputPath: string, outputPath: string) => {
+    fs.copyFileSync(docxFixture, outputPath);
+  });
+
+  server = app.listen(0);
+  await new Promise((resolve) => server.once("listening", resolve));
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+after(() => {
+  server.close();
+  mock.restoreAll();
+});
+
+async function json(response: Response): Promise<any> {
+  return response.json();
+}
+
+async function upload(
+  filePath: string | string[],
+  fields: Record<string, string> = {},
+  headers: Record<string, string> = {}
+): Promise<Response> {
+  const form = new FormData();
+  for (const file of Array.isArray(filePath) ? filePath : [filePath]) {
+    form.append("file", new Blob([fs.readFileSync(file)]), path.basename(file));
+  }
+  for (const [key, value] of Object.entries(fields)) {
+    form.append(key, value);
+  }
+  return fetch(`${baseUrl}/api/upload`, { method: "POST", body: form, headers });
+}
+
+async function waitForJob(
+  jobId: string,
+  statuses = FINAL_STATUSES,
+  headers: Record<string, string> = {}
+): Promise<any> {
+  for (let i = 0; i < 200; i++) {
+    const status = await json(await fetch(`${baseUrl}/api/status/${jobId}`, { headers }));
+    if (statuses.includes(status.status)) return status;
+    await new Promise((resolve) => setTimeout(resolve, 50));
+  }
+  throw new Error(`Job ${jobId} did not finish`);
+}
+
+/**
+ * Read a Server-Sent Events stream until the server ends it
+ */
+async function readEvents(
+  response: Response,
+  onEvent: (event: string, data: any) => void = () => {}
+): Promise<{ event: string; data: any }[]> {
+  const events: { event: string; data: any }[] = [];
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  for await (const chunk of response.body!) {
+    buffer += decoder.decode(chunk as Uint8Array, { stream: true });
+    let end: number;
+    while ((end = buffer.indexOf("\n\n")) !== -1) {
+      const block = buffer.slice(0, end);
+      buffer = buffer.slice(end + 2);
+      const event = block.match(/^event: (.*)$/m)?.[1];
+      const data = block.match(/^data: (.*)$/m)?.[1];
+      if (event && data) {
+        events.push({ event, data: JSON.parse(data) });
+        onEvent(event, JSON.parse(data));
+      }
+    }
+  }
+  return events;
+}
+
+async function download(jobId: string): Promise<string> {
+  const response = await fetch(`${baseUrl}/api/download/${jobId}`);
+  assert.equal(response.status, 200);
+  const filePath = path.join(TEST_DIR, `${jobId}.docx`);
+  fs.writeFileSync(filePath, Buffer.from(await response.arrayBuffer()));
+  return filePath;
+}
+
+/**
+ * Text of the first run in the body of a DOCX
+ */
+async function firstBodyText(docx: Buffer | ArrayBuffer): Promise<string> {
+  const zip = await JSZip.loadAsync(docx);
+  return (await zip.file("word/document.xml")!.async("string")).match(/<w:t[^>]*>([^<]*)</)![1];
+}
+
+test("translates an uploaded DOCX and serves the result", async () => {
+  const response = await upload(docxFixture);
+  assert.equal(response.status, 200);
+  const { jobId } = await json(response);
+
+  const status = await waitForJob(jobId);
+  assert.equal(status.status, "done", status.errorMessage);
+  assert.equal(status.downloadable, true);
+  assert.ok(status.usage.prompt > 0);
+  assert.equal(status.costUSD, 0);
+
+  const output = await download(jobId);
+  const texts = await readPartTexts(output);
+  assert.ok(texts.includes("[zh-TW] Hello, this is a test document."));
+  assert.ok(texts.includes("[zh-TW] Rated voltage"));
+  assert.deepEqual(await readPartTexts(output, "word/header1.xml"), ["[zh-TW] Confidential"]);
+});
+
+test("only translates the requested parts", async () => {
+  const { jobId } = await json(await upload(docxFixture, { parts: "" }));
+
+  assert.equal((await waitForJob(jobId)).status, "done");
+  const output = await download(jobId);
+  assert.deepEqual(await readPartTexts(output, "word/header1.xml"), ["Confidential"]);
+});
+
+test("translates an uploaded XLSX in its own format", async () => {
+  const xlsx = await writeXlsxFixture("data sheet.xlsx", {
+    sharedStrings: ["<t>Test item</t>"],
+    sheets: ['<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1"><v>42</v></c></row>'],
+  });
+
+  const { jobId } = await json(await upload(xlsx));
+  const status = await waitForJob(jobId);
+  assert.equal(status.status, "done", status.errorMessage);
+  assert.deepEqual(status.formats, ["xlsx"]);
+
+  const response = await fetch(`${baseUrl}/api/download/${jobId}`);
+  assert.equal(response.status, 200);
+  assert.equal(
+    response.headers.get("content-type"),
+    "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+  );
+  assert.match(response.headers.get("content-disposition")!, /data%20sheet-translated\.xlsx$/);
+  const output = path.join(TEST_DIR, `${jobId}.xlsx`);
+  fs.writeFileSync(output, Buffer.from(await response.arrayBuffer()));
+  assert.deepEqual(await readElementTexts(output, "xl/sharedStrings.xml", "t"), [
+    "[zh-TW] Test item",
+  ]);
+
+  assert.equal((await fetch(`${baseUrl}/api/download/${jobId}?format=docx`)).status, 400);
+  assert.equal((await upload(xlsx, { variants: "table" })).status, 400);
+});
+
+test("converts an uploaded PDF before translating", async () => {
+  const pdf = path.join(TEST_DIR, "upload.pdf");
+  fs.writeFileSync(pdf, "%PDF-1.4\n%%EOF\n");
+
+  const { jobId } = await json(await upload(pdf));
+
+  const status = await waitForJob(jobId);
+  assert.equal(status.status, "done", status.errorMessage);
+  assert.equal(status.converter, "adobe");
+  const texts = await readPartTexts(await download(jobId));
+  assert.ok(texts.includes("[zh-TW] Hello, this is a test document."));
+});
+
+test("renders the translation to PDF when asked", async () => {
+  const missing = process.env.LIBREOFFICE_PATH;
+  process.env.LIBREOFFICE_PATH = path.join(TEST_DIR, "no-soffice");
+  const unavailable = await upload(docxFixture, { outputFormat: "pdf" });
+  assert.equal(unavailable.status, 400);
+  assert.match((await json(unavailable)).error, /LibreOffice/);
+  if (missing === undefined) delete process.env.LIBREOFFICE_PATH;
+  else process.env.LIBREOFFICE_PATH = missing;
+
+  // Fake renderer: the "PDF" records the font it was asked to use
+  mock.method(converters, "canRenderPdf", () => true);
+  const render = mock.method(
+    converters,
+    "renderPdf",
+    async (docxPath: string, pdfPath: string, font?: string) => {
+      fs.writeFileSync(pdfPath, `%PDF-1.4 ${font}`);
+    }
+  );
+
+  const renamed = path.join(TEST_DIR, "規格書.docx");
+  fs.copyFileSync(docxFixture, renamed);
+  const { jobId } = await json(await upload(renamed, { outputFormat: "pdf", parts: "" }));
+  const status = await waitForJob(jobId);
+  assert.equal(status.status, "done", status.errorMessage);
+  assert.deepEqual(status.formats, ["docx", "pdf"]);
+  assert.equal(render.mock.callCount(), 1);
+
+  const response = await fetch(`${baseUrl}/api/download/${jobId}?format=pdf`);
+  assert.equal(response.status, 200);
+  assert.equal(response.headers.get("content-type"), "application/pdf");
+  assert.equal(
+    response.headers.get("content-disposition"),
+    `attachment; filename="___-translated.pdf"; filename*=UTF-8''${encodeURIComponent("規格書-translated.pdf")}`
+  );
+  assert.equal(await response.text(), "%PDF-1.4 Noto Sans CJK TC");
+
+  const variantPdf = await fetch(`${baseUrl}/api/download/${jobId}?format=pdf&variant=table`);
+  assert.equal(variantPdf.status, 400);
+});
+
+test("answers 404 for a PDF that was not generated", async () => {
+  const { jobId } = await json(await upload(docxFixture, { parts: "" }));
+  const status = await waitForJob(jobId);
+  assert.deepEqual(status.formats, ["docx"]);
+
+  assert.equal((await fetch(`${baseUrl}/api/download/${jobId}?format=pdf`)).status, 404);
+  assert.equal((await fetch(`${baseUrl}/api/download/${jobId}?format=odt`)).status, 400);
+});
+
+test("pauses for review and packs the reviewer's edits", async () => {
+  const { jobId } = await json(await upload(docxFixture, { review: "true", parts: "" }));
+  assert.equal((await waitForJob(jobId)).status, "review");
+
+  const page = await json(await fetch(`${baseUrl}/api/jobs/${jobId}/segments`));
+  const first = page.segments[0];
+  assert.equal(first.source, "Hello, this is a test document.");
+
+  const edit = await fetch(`${baseUrl}/api/jobs/${jobId}/segments/${first.id}`, {
+    method: "PUT",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ translated: "你好，這是一份測試文件。" }),
+  });
+  assert.equal(edit.status, 200);
+  assert.equal((await json(edit)).edited, true);
+
+  const finalize = await fetch(`${baseUrl}/api/jobs/${jobId}/finalize`, { method: "POST" });
+  assert.equal(finalize.status, 200);
+  assert.equal((await waitForJob(jobId)).status, "done");
+
+  const texts = await readPartTexts(await download(jobId));
+  assert.ok(texts.includes("你好，這是一份測試文件。"));
+});
+
+test("round-trips run formatting through an XLIFF review", async () => {
+  const formatted = await writeFixture("formatted.docx", {
+    body: `<w:p>${r("Press ")}${r("Start", "<w:b/>")}${r(" to begin.")}</w:p>`,
+  });
+  const { jobId } = await json(await upload(formatted, { review: "true", parts: "" }));
+  assert.equal((await waitForJob(jobId)).status, "review");
+
+  const xliff = await (await fetch(`${baseUrl}/api/jobs/${jobId}/xliff`)).text();
+  assert.match(xliff, /<source xml:space="preserve">Press <pc id="r1">Start<\/pc> to begin\.<\/source>/);
+  assert.match(xliff, /<target xml:space="preserve">\[zh-TW\] Press <pc id="r1">Start<\/pc> to begin\.<\/target>/);
+
+  // The reviewer moves the bold run to the front of the sentence
+  const reviewed = xliff.replace(
+    /<target xml:space="preserve">.*<\/target>/,
+    '<target xml:space="preserve"><pc id="r1">按下開始</pc>即可啟動。</target>'
+  );
+  const form = new FormData();
+  form.append("file", new Blob([reviewed]), "reviewed.xlf");
+  const imported = await fetch(`${baseUrl}/api/jobs/${jobId}/xliff`, { method: "POST", body: form });
+  assert.deepEqual(await json(imported), { imported: 1, updated: 1 });
+  assert.equal((await waitForJob(jobId)).status, "done");
+
+  const output = await download(jobId);
+  assert.deepEqual(await readPartTexts(output), ["", "按下開始", "即可啟動。"]);
+  const zip = await JSZip.loadAsync(fs.readFileSync(output));
+  const xml = await zip.file("word/document.xml")!.async("string");
+  assert.match(xml, /<w:rPr><w:b(\/|><\/w:b)><\/w:rPr><w:t[^>]*>按下開始<\/w:t>/);
+});
+
+test("estimates tokens and cost without translating", async () => {
+  const form = new FormData();
+  for (const file of [docxFixture, docxFixture]) {
+    form.append("file", new Blob([fs.readFileSync(file)]), path.basename(file));
+  }
+  form.append("parts", "");
+  const response = await fetch(`${baseUrl}/api/estimate`, { method: "POST", body: form });
+  assert.equal(response.status, 200);
+
+  const estimate = await json(response);
+  assert.equal(estimate.engine, "mock");
+  assert.equal(estimate.files.length, 2);
+  assert.equal(estimate.files[0].fileName, "upload.docx");
+  // "230 V" has nothing to translate
+  assert.equal(estimate.files[0].segments, 2);
+  assert.ok(estimate.files[0].usage.prompt > 0);
+  assert.equal(estimate.total.segments, 4);
+  assert.equal(estimate.total.usage.prompt, estimate.files[0].usage.prompt * 2);
+  assert.equal(estimate.total.costUSD, 0);
+
+  const invalid = new FormData();
+  invalid.append("file", new Blob([fs.readFileSync(docxFixture)]), "upload.docx");
+  invalid.append("engine", "nope");
+  assert.equal((await fetch(`${baseUrl}/api/estimate`, { method: "POST", body: invalid })).status, 400);
+});
+
+test("waits for the estimate to be confirmed before translating", async () => {
+  const { jobId } = await json(await upload(docxFixture, { parts: "", confirmEstimate: "true" }));
+
+  let status = await waitForJob(jobId, ["estimated"]);
+  assert.equal(status.status, "estimated");
+  assert.equal(status.estimate.segments, 2);
+  assert.deepEqual(status.usage, { prompt: 0, completion: 0, reasoning: 0 });
+
+  const confirm = await fetch(`${baseUrl}/api/jobs/${jobId}/confirm`, { method: "POST" });
+  assert.equal(confirm.status, 200);
+
+  status = await waitForJob(jobId);
+  assert.equal(status.status, "done", status.errorMessage);
+  assert.ok(status.usage.prompt > 0);
+  assert.deepEqual(await readPartTexts(await download(jobId)), [
+    "[zh-TW] Hello, this is a test document.",
+    "[zh-TW] Rated voltage",
+    "230 V",
+  ]);
+
+  const again = await fetch(`${baseUrl}/api/jobs/${jobId}/confirm`, { method: "POST" });
+  assert.equal(again.status, 409);
+});
+
+test("pauses a job over budget and finishes it once approved", async () => {
+  const { jobId } = await json(await upload(docxFixture, { parts: "", maxTokens: "1" }));
+
+  let status = await waitForJob(jobId, ["budget-exceeded", ...FINAL_STATUSES]);
+  assert.equal(status.status, "budget-exceeded");
+  assert.match(status.errorMessage, /over the budget of 1/);
+  assert.equal(status.resumable, true);
+  assert.deepEqual(status.budget, { maxTokens: 1 });
+
+  // Only approval continues the job
+  assert.equal((await fetch(`${baseUrl}/api/resume/${jobId}`, { method: "POST" })).status, 409);
+  const approve = await fetch(`${baseUrl}/api/jobs/${jobId}/approve-budget`, { method: "POST" });
+  assert.equal(approve.status, 200);
+
+  status = await waitForJob(jobId);
+  assert.equal(status.status, "done", status.errorMessage);
+  const texts = await readPartTexts(await download(jobId));
+  assert.ok(texts.includes("[zh-TW] Hello, this is a test document."));
+  assert.ok(texts.includes("[zh-TW] Rated voltage"));
+
+  const again = await fetch(`${baseUrl}/api/jobs/${jobId}/approve-budget`, { method: "POST" });
+  assert.equal(again.status, 409);
+  assert.equal((await upload(docxFixture, { maxCostUSD: "-1" })).status, 400);
+});
+
+test("answers 409 to approving a job paused by the daily budget until it is spent", async () => {
+  process.env.API_KEY_DAILY_MAX_TOKENS = "1";
+  try {
+    const { jobId } = await json(await upload(docxFixture, { parts: "" }));
+
+    const status = await waitForJob(jobId, ["budget-exceeded", ...FINAL_STATUSES]);
+    assert.equal(status.status, "budget-exceeded");
+    assert.equal(status.budgetExceeded, "daily");
+
+    const approve = await fetch(`${baseUrl}/api/jobs/${jobId}/approve-budget`, { method: "POST" });
+    assert.equal(approve.status, 409);
+    assert.match((await json(approve)).error, /approval cannot lift the daily budget/);
+
+    // Once the key is under its daily cap again, approval resumes the job
+    process.env.API_KEY_DAILY_MAX_TOKENS = "0";
+    const retry = await fetch(`${baseUrl}/api/jobs/${jobId}/approve-budget`, { method: "POST" });
+    assert.equal(retry.status, 200);
+    assert.equal((await waitForJob(jobId)).status, "done");
+  } finally {
+    process.env.API_KEY_DAILY_MAX_TOKENS = "0";
+  }
+});
+
+test("rejects invalid upload options", async () => {
+  const sameLanguage = await upload(docxFixture, { sourceLang: "en", targetLang: "en" });
+  assert.equal(sameLanguage.status, 400);
+
+  const unknownConverter = await upload(docxFixture, { converter: "nope" });
+  assert.equal(unknownConverter.status, 400);
+
+  const unknownEngine = await upload(docxFixture, { engine: "nope" });
+  assert.equal(unknownEngine.status, 400);
+  assert.match((await json(unknownEngine)).error, /Unknown engine/);
+
+  // A field sent twice arrives as an array; the upload is rejected and removed
+  const uploadDir = process.env.UPLOAD_DIR!;
+  const uploadsBefore = fs.readdirSync(uploadDir).length;
+  for (const route of ["upload", "estimate"]) {
+    const form = new FormData();
+    form.append("file", new Blob([fs.readFileSync(docxFixture)]), "upload.docx");
+    form.append("sourceLang", "en");
+    form.append("sourceLang", "ja");
+    const response = await fetch(`${baseUrl}/api/${route}`, { method: "POST", body: form });
+    assert.equal(response.status, 400);
+    assert.equal((await json(response)).error, "Unsupported source/target language pair");
+  }
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.equal(fs.readdirSync(uploadDir).length, uploadsBefore);
+});
+
+test("streams status and batch events until the job is done", async () => {
+  // Hold translation back until the stream is connected
+  let release!: () => void;
+  const gate = new Promise<void>((resolve) => (release = resolve));
+  const mockEngine = engines.getEngine("mock");
+  const getEngine = mock.method(engines, "getEngine", () => ({
+    ...mockEngine,
+    translateBatch: async (request: engines.EngineRequest, signal: AbortSignal) => {
+      await gate;
+      return mockEngine.translateBatch(request, signal);
+    },
+  }));
+
+  try {
+    const { jobId } = await json(await upload(docxFixture, { parts: "" }));
+    const response = await fetch(`${baseUrl}/api/jobs/${jobId}/events`);
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get("content-type"), "text/event-stream");
+
+    const events = await readEvents(response, (event, data) => {
+      if (event === "status" && data.status === "translating") release();
+    });
+
+    const batches = events.filter((e) => e.event === "batch");
+    assert.ok(batches.length > 0);
+    assert.ok(batches[0].data.segmentIds.length > 0);
+    assert.ok(batches[0].data.usage.prompt > 0);
+
+    const statuses = events.filter((e) => e.event === "status").map((e) => e.data);
+    assert.ok(statuses.some((status) => status.status === "translating"));
+    assert.equal(statuses[statuses.length - 1].status, "done");
+    assert.equal(statuses[statuses.length - 1].downloadable, true);
+  } finally {
+    getEngine.mock.restore();
+  }
+
+  assert.equal((await fetch(`${baseUrl}/api/jobs/missing/events`)).status, 404);
+});
+
+test("queues a batch upload and serves its outputs as one ZIP", async () => {
+  const second = await writeFixture("second.docx", { body: p("Second document.") });
+  const response = await upload([docxFixture, second, docxFixture], { parts: "" });
+  assert.equal(response.status, 200);
+  const { jobId, jobIds, batchId } = await json(response);
+  assert.equal(jobIds.length, 3);
+  assert.equal(jobId, jobIds[0]);
+
+  for (const id of jobIds) {
+    const status = await waitForJob(id);
+    assert.equal(status.status, "done", status.errorMessage);
+    assert.equal(status.batchId, batchId);
+    assert.equal(status.queuePosition, undefined);
+  }
+
+  const zipResponse = await fetch(`${baseUrl}/api/batches/${batchId}/download`);
+  assert.equal(zipResponse.status, 200);
+  assert.equal(zipResponse.headers.get("content-type"), "application/zip");
+
+  const zip = await JSZip.loadAsync(Buffer.from(await zipResponse.arrayBuffer()));
+  assert.deepEqual(Object.keys(zip.files).sort(), [
+    "second-translated.docx",
+    "upload-translated (2).docx",
+    "upload-translated.docx",
+  ]);
+
+  assert.equal((await fetch(`${baseUrl}/api/batches/missing/download`)).status, 404);
+});
+
+test("keeps same-name uploads of a batch apart", async () => {
+  fs.mkdirSync(path.join(TEST_DIR, "a"), { recursive: true });
+  fs.mkdirSync(path.join(TEST_DIR, "b"), { recursive: true });
+  const first = await writeFixture("a/report.docx", { body: p("First report.") });
+  const second = await writeFixture("b/report.docx", { body: p("Second report.") });
+  const { jobIds, batchId } = await json(await upload([first, second], { parts: "" }));
+  for (const id of jobIds) {
+    assert.equal((await waitForJob(id)).status, "done");
+  }
+
+  const zipResponse = await fetch(`${baseUrl}/api/batches/${batchId}/download`);
+  const zip = await JSZip.loadAsync(Buffer.from(await zipResponse.arrayBuffer()));
+  const texts: Record<string, string> = {};
+  for (const name of ["report-translated.docx", "report-translated (2).docx"]) {
+    texts[name] = await firstBodyText(await zip.file(name)!.async("nodebuffer"));
+  }
+  assert.deepEqual(texts, {
+    "report-translated.docx": "[zh-TW] First report.",
+    "report-translated (2).docx": "[zh-TW] Second report.",
+  });
+});
+
+test("reports the usage ledger of translated jobs", async () => {
+  const { jobId } = await json(await upload(docxFixture, { parts: "" }));
+  const status = await waitForJob(jobId);
+  assert.equal(status.status, "done", status.errorMessage);
+
+  const report = await json(await fetch(`${baseUrl}/api/usage?groupBy=user,deployment`));
+  assert.deepEqual(report.groupBy, ["user", "deployment"]);
+  const row = report.rows.find((r: any) => r.user === "anonymous" && r.deployment === "mock");
+  assert.ok(row.calls > 0);
+  assert.ok(row.prompt >= status.usage.prompt);
+  assert.equal(report.total.calls, row.calls);
+
+  const csv = await fetch(`${baseUrl}/api/usage?groupBy=day&format=csv`);
+  assert.equal(csv.status, 200);
+  assert.equal(csv.headers.get("content-type"), "text/csv; charset=utf-8");
+  assert.match(csv.headers.get("content-disposition")!, /filename\*=UTF-8''usage-\d{4}-\d{2}-01-/);
+  assert.match(await csv.text(), /^day,calls,prompt,completion,reasoning,costUSD,latencyMs\n\d{4}-\d{2}-\d{2},/);
+
+  assert.equal((await fetch(`${baseUrl}/api/usage?groupBy=tenant`)).status, 400);
+  assert.equal((await fetch(`${baseUrl}/api/usage?from=2026-02-01&to=2026-01-01`)).status, 400);
+});
+
+test("keeps jobs to their tenant when API keys are configured", async () => {
+  process.env.API_KEYS = "acme:key-a,globex:key-b";
+  process.env.ADMIN_API_KEYS = "key-admin";
+  const acme = { "X-API-Key": "key-a" };
+  const globex = { Authorization: "Bearer key-b" };
+  const admin = { "X-API-Key": "key-admin" };
+
+  try {
+    assert.equal((await upload(docxFixture)).status, 401);
+    assert.equal((await upload(docxFixture, {}, { "X-API-Key": "wrong" })).status, 401);
+
+    const { jobId } = await json(await upload(docxFixture, { parts: "" }, acme));
+    assert.equal((await waitForJob(jobId, FINAL_STATUSES, acme)).status, "done");
+    assert.equal((await fetch(`${baseUrl}/api/download/${jobId}`, { headers: acme })).status, 200);
+
+    // Another tenant cannot tell the job exists
+    assert.equal((await fetch(`${baseUrl}/api/status/${jobId}`, { headers: globex })).status, 404);
+    assert.equal((await fetch(`${baseUrl}/api/download/${jobId}`, { headers: globex })).status, 404);
+    const stop = await fetch(`${baseUrl}/api/stop/${jobId}`, { method: "POST", headers: globex });
+    assert.equal(stop.status, 404);
+
+    // Browsers sign in once and use the session cookie
+    const signIn = await fetch(`${baseUrl}/api/session`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ apiKey: "key-a" }),
+    });
+    assert.deepEqual(await json(signIn), { tenant: "acme", admin: false });
+    const cookie = signIn.headers.get("set-cookie")!.split(";")[0];
+    assert.equal((await fetch(`${baseUrl}/api/status/${jobId}`, { headers: { cookie } })).status, 200);
+    assert.equal((await fetch(`${baseUrl}/api/status/${jobId}`)).status, 401);
+
+    // Only admins list every job and see usage reports
+    assert.equal((await fetch(`${baseUrl}/api/admin/jobs`, { headers: acme })).status, 403);
+    assert.equal((await fetch(`${baseUrl}/api/usage`, { headers: acme })).status, 403);
+    const listed = await json(await fetch(`${baseUrl}/api/admin/jobs?tenant=acme`, { headers: admin }));
+    assert.deepEqual(
+      listed.map((job: any) => [job.id, job.tenant]),
+      [[jobId, "acme"]]
+    );
+    assert.equal((await fetch(`${baseUrl}/api/status/${jobId}`, { headers: admin })).status, 200);
+    const usage = await json(await fetch(`${baseUrl}/api/usage?groupBy=user`, { headers: admin }));
+    assert.ok(usage.rows.some((row: any) => row.user === "acme" && row.calls > 0));
+  } finally {
+    process.env.API_KEYS = "";
+    process.env.ADMIN_API_KEYS = "";
+  }
+});
+
+test("keeps same-name uploads of different tenants apart", async () => {
+  process.env.API_KEYS = "acme:key-a,globex:key-b";
+  const acme = { "X-API-Key": "key-a" };
+  const globex = { "X-API-Key": "key-b" };
+
+  try {
+    fs.mkdirSync(path.join(TEST_DIR, "acme"), { recursive: true });
+    fs.mkdirSync(path.join(TEST_DIR, "globex"), { recursive: true });
+    const acmeFile = await writeFixture("acme/contract.docx", { body: p("Acme terms.") });
+    const globexFile = await writeFixture("globex/contract.docx", { body: p("Globex terms.") });
+
+    const { jobId: acmeJob } = await json(await upload(acmeFile, { parts: "" }, acme));
+    const { jobId: globexJob } = await json(await upload(globexFile, { parts: "" }, globex));
+    assert.equal((await waitForJob(acmeJob, FINAL_STATUSES, acme)).status, "done");
+    assert.equal((await waitForJob(globexJob, FINAL_STATUSES, globex)).status, "done");
+
+    const acmeDownload = await fetch(`${baseUrl}/api/download/${acmeJob}`, { headers: acme });
+    const globexDownload = await fetch(`${baseUrl}/api/download/${globexJob}`, { headers: globex });
+    assert.equal(await firstBodyText(await acmeDownload.arrayBuffer()), "[zh-TW] Acme terms.");
+    assert.equal(await firstBodyText(await globexDownload.arrayBuffer()), "[zh-TW] Globex terms.");
+  } finally {
+    process.env.API_KEYS = "";
+  }
+});
+
+test("keeps the translation memory of each tenant to itself", async () => {
+  process.env.API_KEYS = "acme:key-a,globex:key-b";
+  const acme = { "X-API-Key": "key-a" };
+  const globex = { "X-API-Key": "key-b" };
+  const fields = { parts: "", useMemory: "true" };
+
+  try {
+    const memoryFixture = await writeFixture("memory.docx", { body: p("Remember this sentence.") });
+    const translate = async (headers: Record<string, string>) => {
+      const { jobId } = await json(await upload(memoryFixture, fields, headers));
+      return waitForJob(jobId, FINAL_STATUSES, headers);
+    };
+
+    assert.equal((await translate(acme)).memoryStats.exact, 0);
+    assert.equal((await translate(acme)).memoryStats.exact, 1);
+    assert.equal((await translate(globex)).memoryStats.exact, 0);
+
+    const stats = await json(await fetch(`${baseUrl}/api/memory`, { headers: acme }));
+    assert.deepEqual(stats, [{ sourceLang: "en", targetLang: "zh-TW", units: 1 }]);
+    const tmx = await fetch(`${baseUrl}/api/memory/export`, { headers: acme });
+    assert.match(await tmx.text(), /Remember this sentence\./);
+
+    // Globex's own job stored its unit; it never saw Acme's
+    const globexTmx = await (await fetch(`${baseUrl}/api/memory/export`, { headers: globex })).text();
+    assert.equal(globexTmx.match(/<tu /g)?.length, 1);
+  } finally {
+    process.env.API_KEYS = "";
+  }
+});
+
+test("keeps glossaries to their tenant and shared glossaries read-only", async () => {
+  process.env.API_KEYS = "acme:key-a,globex:key-b";
+  process.env.ADMIN_API_KEYS = "key-admin";
+  const acme = { "X-API-Key": "key-a", "Content-Type": "application/json" };
+  const globex = { "X-API-Key": "key-b", "Content-Type": "application/json" };
+  const admin = { "X-API-Key": "key-admin", "Content-Type": "application/json" };
+  const glossaries = `${baseUrl}/api/glossaries`;
+
+  try {
+    const created = await fetch(glossaries, {
+      method: "POST",
+      headers: acme,
+      body: JSON.stringify({ name: "Acme terms", entries: [{ source: "widget", target: "小工具" }] }),
+    });
+    assert.equal(created.status, 201);
+    const { id, tenant } = await json(created);
+    assert.equal(tenant, "acme");
+
+    // Another tenant cannot tell the glossary exists, nor use it for a job
+    const globexList = await json(await fetch(glossaries, { headers: globex }));
+    assert.deepEqual(globexList.map((g: any) => g.id), ["default"]);
+    assert.equal((await fetch(`${glossaries}/${id}`, { headers: globex })).status, 404);
+    assert.equal((await fetch(`${glossaries}/${id}/export`, { headers: globex })).status, 404);
+    const patch = await fetch(`${glossaries}/${id}`, {
+      method: "PATCH",
+      headers: globex,
+      body: JSON.stringify({ name: "Taken" }),
+    });
+    assert.equal(patch.status, 404);
+    const removed = await fetch(`${glossaries}/${id}`, { method: "DELETE", headers: globex });
+    assert.equal(removed.status, 404);
+    const rejected = await upload(docxFixture, { glossaryIds: id }, { "X-API-Key": "key-b" });
+    assert.equal(rejected.status, 400);
+
+    // The shared default glossary is read-only for tenants
+    assert.equal((await fetch(`${glossaries}/default`, { headers: acme })).status, 200);
+    const sharedEntry = await fetch(`${glossaries}/default/entries`, {
+      method: "POST",
+      headers: acme,
+      body: JSON.stringify({ source: "gadget", target: "裝置" }),
+    });
+    assert.equal(sharedEntry.status, 403);
+
+    // Admins see and change every glossary
+    const adminList = await json(await fetch(glossaries, { headers: admin }));
+    assert.ok(adminList.some((g: any) => g.id === id));
+    const renamed = await fetch(`${glossaries}/${id}`, {
+      method: "PATCH",
+      headers: admin,
+      body: JSON.stringify({ name: "Acme terminology" }),
+    });
+    assert.equal((await json(renamed)).name, "Acme terminology");
+    assert.equal((await fetch(`${glossaries}/${id}`, { method: "DELETE", headers: acme })).status, 200);
+  } finally {
+    process.env.API_KEYS = "";
+    process.env.ADMIN_API_KEYS = "";
+  }
+});
+
+test("rejects invalid glossaries", async () => {
+  const headers = { "Content-Type": "application/json" };
+  const glossaries = `${baseUrl}/api/glossaries`;
+  const post = (url: string, body: any) =>
+    fetch(url, { method: "POST", headers, body: JSON.stringify(body) });
+
+  assert.equal((await post(glossaries, { name: "Numbers", sourceLang: 5 })).status, 400);
+  assert.equal((await post(glossaries, { name: "Klingon", targetLang: "tlh" })).status, 400);
+  const badEntry = await post(glossaries, {
+    name: "Bad entry",
+    entries: [{ source: "primary", target: "一次側", forbidden: "初級" }],
+  });
+  assert.equal(badEntry.status, 400);
+
+  const { id } = await json(await post(glossaries, { name: "Valid", sourceLang: "English" }));
+  const patch = (body: any) =>
+    fetch(`${glossaries}/${id}`, { method: "PATCH", headers, body: JSON.stringify(body) });
+  assert.equal((await patch({ name: "  " })).status, 400);
+  assert.equal((await patch({ targetLang: 5 })).status, 400);
+  const glossary = await json(await fetch(`${glossaries}/${id}`));
+  assert.deepEqual([glossary.name, glossary.sourceLang, glossary.targetLang], ["Valid", "en", "zh-TW"]);
+
+  // Uploads naming the glossary still parse its languages
+  const { jobId } = await json(await upload(docxFixture, { glossaryIds: id, parts: "" }));
+  assert.equal((await waitForJob(jobId)).status, "done");
+});
+
+test("answers 404 for unknown jobs", async () => {
+  assert.equal((await fetch(`${baseUrl}/api/status/missing`)).status, 404);
+  assert.equal((await fetch(`${baseUrl}/api/download/missing`)).status, 404);
+});
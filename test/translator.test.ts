@@ -0,0 +1,167 @@
+/**
+ * Translation pipeline with the offline mock engine
+ */
+import { writeFixture, p, r } from "./helpers";
+
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+
+import { createJob, JobOptions } from "../src/jobs";
+import { parseDocx } from "../src/services/docx";
+import {
+  translateSegments,
+  qaAndRetranslate,
+  estimateTranslation,
+} from "../src/services/translator";
+import { getEngine } from "../src/services/engines";
+import { BudgetExceededError } from "../src/services/budget";
+
+const options: JobOptions = {
+  sourceLang: "en",
+  targetLang: "zh-TW",
+  glossaryIds: [],
+  useMemory: false,
+  partTypes: [],
+  inlineTags: true,
+  outputVariants: [],
+  translationStyle: { italic: false },
+  layoutMode: "flag",
+  review: false,
+  engine: "mock",
+  converter: "text",
+  outputFormat: "docx",
+  confirmEstimate: false,
+  budget: {},
+};
+
+async function parseFixture(name: string) {
+  return parseDocx(
+    await writeFixture(name, {
+      body:
+        p("First paragraph.") +
+        p("IEC 62368-1 requires 5 tests.") +
+        `<w:p>${r("Press ")}${r("Start", "<w:b/>")}${r(" now")}</w:p>` +
+        p("12345"),
+    }),
+    { partTypes: [] }
+  );
+}
+
+test("mock engine answers every item deterministically", async () => {
+  const engine = getEngine("mock");
+  const request = {
+    systemPrompt: "system",
+    userContent: JSON.stringify([{ index: 3, text: "Hello" }]),
+    target: { code: "ja" } as any,
+  };
+
+  const first = await engine.translateBatch(request, new AbortController().signal);
+  const second = await engine.translateBatch(request, new AbortController().signal);
+
+  assert.deepEqual(JSON.parse(first.content!), {
+    translations: [{ index: 3, translated: "[ja] Hello" }],
+  });
+  assert.deepEqual(first, second);
+  assert.ok(first.usage.prompt > 0);
+});
+
+test("translateSegments fills every source-language segment and counts usage", async () => {
+  const parsed = await parseFixture("translate.docx");
+  const job = createJob("translate-job", "translate.docx", options);
+  const checkpointed: number[] = [];
+
+  await translateSegments(job, parsed.segments, {
+    engine: "mock",
+    inlineTags: true,
+    onBatchComplete: (done) => checkpointed.push(...done.map((seg) => seg.id)),
+  });
+
+  const [first, standard, tagged, number] = parsed.segments;
+  assert.equal(first.translated, "[zh-TW] First paragraph.");
+  assert.equal(standard.translated, "[zh-TW] IEC 62368-1 requires 5 tests.");
+  assert.equal(tagged.translatedMarkup, "[zh-TW] Press <r1>Start</r1> now");
+  assert.equal(tagged.translated, "[zh-TW] Press Start now");
+  // Numbers only: nothing to translate
+  assert.equal(number.translated, undefined);
+
+  assert.deepEqual(checkpointed.sort(), [0, 1, 2]);
+  assert.equal(job.doneSegments, 3);
+  assert.ok(job.usage.prompt > 0 && job.usage.completion > 0);
+  assert.deepEqual(job.qaFlags, []);
+});
+
+test("translateSegments batches by chunk size", async () => {
+  const parsed = await parseFixture("chunks.docx");
+  const job = createJob("chunk-job", "chunks.docx", options);
+  let batches = 0;
+
+  await translateSegments(job, parsed.segments, {
+    engine: "mock",
+    chunkSize: 1,
+    onBatchComplete: () => batches++,
+  });
+
+  assert.equal(batches, 3);
+});
+
+test("translateSegments counts malformed answers against the job budget", async () => {
+  const parsed = await parseFixture("malformed.docx");
+  const job = createJob("malformed-job", "malformed.docx", { ...options, budget: { maxTokens: 250 } });
+  const engine = getEngine("mock");
+  const calls = mock.method(engine, "translateBatch", async () => ({
+    content: "not json",
+    usage: { prompt: 100, completion: 0, reasoning: 0 },
+  }));
+
+  try {
+    await assert.rejects(
+      translateSegments(job, parsed.segments, { engine: "mock" }),
+      BudgetExceededError
+    );
+    // The third answer went over the budget; no retry was sent after it
+    assert.equal(calls.mock.callCount(), 3);
+    assert.deepEqual(job.usage, { prompt: 300, completion: 0, reasoning: 0 });
+    assert.ok(parsed.segments.every((seg) => seg.translated === undefined));
+  } finally {
+    calls.mock.restore();
+  }
+});
+
+test("estimateTranslation prices the batches translateSegments would send", async () => {
+  const parsed = await parseFixture("estimate.docx");
+
+  const estimate = estimateTranslation(parsed.segments, { engine: "mock", chunkSize: 20 });
+  assert.equal(estimate.segments, 3);
+  assert.equal(estimate.batches, 1);
+  assert.ok(estimate.usage.prompt > 0 && estimate.usage.completion > 0);
+  assert.equal(estimate.costUSD, 0);
+
+  // Every batch repeats the system prompt
+  const perSegment = estimateTranslation(parsed.segments, { engine: "mock", chunkSize: 1 });
+  assert.equal(perSegment.batches, 3);
+  assert.ok(perSegment.usage.prompt > estimate.usage.prompt * 2);
+
+  // Nothing is translated or spent
+  assert.ok(parsed.segments.every((seg) => seg.translated === undefined));
+});
+
+test("qaAndRetranslate re-sends segments that still look like the source language", async () => {
+  const parsed = await parseFixture("qa.docx");
+  const job = createJob("qa-job", "qa.docx", options);
+  await translateSegments(job, parsed.segments, { engine: "mock" });
+  const promptAfterFirstPass = job.usage.prompt;
+
+  // Mock output keeps the English text, so QA sends it again
+  await qaAndRetranslate(job, parsed.segments, { engine: "mock" });
+
+  assert.ok(job.usage.prompt > promptAfterFirstPass);
+  assert.equal(job.progress, 90);
+
+  // A real translation passes QA without another request
+  for (const seg of parsed.segments) {
+    if (seg.translated) seg.translated = "第一段。";
+  }
+  const promptAfterQa = job.usage.prompt;
+  await qaAndRetranslate(job, parsed.segments, { engine: "mock" });
+  assert.equal(job.usage.prompt, promptAfterQa);
+});
@@ -0,0 +1,98 @@
+/**
+ * Usage ledger: recording, grouping and CSV export
+ */
+import { TEST_DIR } from "./helpers";
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+
+import {
+  UsageRecord,
+  dailySpend,
+  initUsageLedger,
+  recordUsage,
+  readUsage,
+  summarizeUsage,
+  toUsageCsv,
+} from "../src/services/usage";
+
+function record(day: string, patch: Partial<UsageRecord> = {}): UsageRecord {
+  return {
+    at: new Date(`${day}T12:00:00`).getTime(),
+    jobId: "job",
+    engine: "azure",
+    deployment: "gpt-5-mini",
+    prompt: 100,
+    completion: 50,
+    reasoning: 0,
+    costUSD: 0.01,
+    latencyMs: 1000,
+    ...patch,
+  };
+}
+
+test("reads back the records of a day range across monthly files", () => {
+  initUsageLedger(path.join(TEST_DIR, "ledger-range"));
+  recordUsage(record("2026-01-31"));
+  recordUsage(record("2026-02-01", { jobId: "february" }));
+  recordUsage(record("2026-02-15"));
+  recordUsage(record("2026-03-01"));
+
+  const records = readUsage("2026-02-01", "2026-02-28");
+  assert.equal(records.length, 2);
+  assert.equal(records[0].jobId, "february");
+  assert.equal(readUsage("2026-01-01", "2026-12-31").length, 4);
+});
+
+test("groups usage by day, user and deployment", () => {
+  const records = [
+    record("2026-02-01", { tenant: "team-a", apiKeyId: "1f2e3d4c5b6a7980" }),
+    record("2026-02-01", { tenant: "team-a", apiKeyId: "0a1b2c3d4e5f6071", latencyMs: 3000 }),
+    record("2026-02-01", { tenant: "team-b", deployment: "gpt-5", costUSD: 0.05 }),
+    record("2026-02-02"),
+  ];
+
+  const byUser = summarizeUsage(records, ["user"]);
+  assert.deepEqual(
+    byUser.map((row) => [row.user, row.calls, row.prompt, row.latencyMs]),
+    [
+      ["anonymous", 1, 100, 1000],
+      ["team-a", 2, 200, 2000],
+      ["team-b", 1, 100, 1000],
+    ]
+  );
+
+  const byDayAndDeployment = summarizeUsage(records, ["day", "deployment"]);
+  assert.deepEqual(
+    byDayAndDeployment.map((row) => [row.day, row.deployment, row.calls]),
+    [
+      ["2026-02-01", "gpt-5", 1],
+      ["2026-02-01", "gpt-5-mini", 2],
+      ["2026-02-02", "gpt-5-mini", 1],
+    ]
+  );
+
+  const [total] = summarizeUsage(records, []);
+  assert.equal(total.calls, 4);
+  assert.equal(total.day, undefined);
+  assert.ok(Math.abs(total.costUSD - 0.08) < 1e-9);
+
+  assert.equal(
+    toUsageCsv(summarizeUsage(records.slice(0, 2), ["day", "user"]), ["day", "user"]),
+    "day,user,calls,prompt,completion,reasoning,costUSD,latencyMs\n" +
+      "2026-02-01,team-a,2,200,100,0,0.020000,2000\n"
+  );
+});
+
+test("reads today's spend back from the ledger after a restart", () => {
+  const dir = path.join(TEST_DIR, "ledger-restart");
+  initUsageLedger(dir);
+  recordUsage({ ...record("2026-01-01", { apiKeyId: "key" }), at: Date.now() });
+  recordUsage({ ...record("2026-01-01", { apiKeyId: "key" }), at: Date.now() - 24 * 60 * 60 * 1000 });
+  assert.deepEqual(dailySpend("key"), { tokens: 150, costUSD: 0.01 });
+
+  initUsageLedger(dir);
+  assert.deepEqual(dailySpend("key"), { tokens: 150, costUSD: 0.01 });
+  assert.deepEqual(dailySpend("other"), { tokens: 0, costUSD: 0 });
+});
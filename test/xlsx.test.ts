@@ -0,0 +1,75 @@
+/**
+ * XLSX extraction and write-back of shared and inline strings
+ */
+import { TEST_DIR, writeXlsxFixture, readElementTexts } from "./helpers";
+
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import * as path from "path";
+
+import { parseXlsx, writeXlsx } from "../src/services/xlsx";
+
+function workbook(name: string): Promise<string> {
+  return writeXlsxFixture(name, {
+    sharedStrings: [
+      "<t>Test item</t>",
+      "<t>Unused string</t>",
+      '<r><t xml:space="preserve">Result: </t></r><r><rPr><b/></rPr><t>Pass</t></r>',
+      "<t>東京</t><rPh sb=\"0\" eb=\"2\"><t>トウキョウ</t></rPh>",
+    ],
+    sheets: [
+      '<row r="1"><c r="A1" t="s"><v>0</v></c><c r="B1"><v>230</v></c><c r="C1" t="s"><v>2</v></c></row>' +
+        '<row r="2"><c r="A2" t="str"><f>A1&amp;"!"</f><v>Test item!</v></c><c r="B2"><f>B1*2</f><v>460</v></c></row>',
+      '<row r="1"><c r="A1" t="inlineStr"><is><t>Inline note</t></is></c><c r="B1" t="s"><v>3</v></c></row>',
+    ],
+  });
+}
+
+test("extracts shared strings used by text cells and inline strings", async () => {
+  const parsed = await parseXlsx(await workbook("cells.xlsx"));
+
+  assert.deepEqual(
+    parsed.segments.map((seg) => [seg.part, seg.text]),
+    [
+      ["xl/sharedStrings.xml", "Test item"],
+      ["xl/sharedStrings.xml", "Result: Pass"],
+      // Phonetic guide is not part of the text
+      ["xl/sharedStrings.xml", "東京"],
+      ["xl/worksheets/sheet2.xml", "Inline note"],
+    ]
+  );
+  assert.ok(parsed.segments.every((seg) => seg.partType === "cell"));
+  assert.equal(parsed.segments[1].markup, "Result: <r1>Pass</r1>");
+  // Sheets without inline strings are not rewritten
+  assert.deepEqual(
+    parsed.parts.map((part) => part.path),
+    ["xl/sharedStrings.xml", "xl/worksheets/sheet2.xml"]
+  );
+});
+
+test("writes translations back without touching numbers and formulas", async () => {
+  const parsed = await parseXlsx(await workbook("translate.xlsx"));
+  const [item, result, place, inline] = parsed.segments;
+  item.translated = "測試項目";
+  result.translated = "結果：合格";
+  result.translatedMarkup = "結果：<r1>合格</r1>";
+  place.translated = "東京";
+  inline.translated = "內嵌備註";
+
+  const output = path.join(TEST_DIR, "translate-out.xlsx");
+  await writeXlsx(parsed, output);
+
+  assert.deepEqual(await readElementTexts(output, "xl/sharedStrings.xml", "t"), [
+    "測試項目",
+    "Unused string",
+    "結果：",
+    "合格",
+    "東京",
+    "トウキョウ",
+  ]);
+  assert.deepEqual(await readElementTexts(output, "xl/worksheets/sheet2.xml", "t"), ["內嵌備註"]);
+  assert.deepEqual(await readElementTexts(output, "xl/worksheets/sheet1.xml", "f"), [
+    'A1&amp;"!"',
+    "B1*2",
+  ]);
+});